@@ -1,13 +1,69 @@
 declare module 'SERVER' {
     import { CAC } from 'cac';
     export { Server } from '@sveltejs/kit';
-    export function get_hooks(): Promise<{
+
+    type MaybePromise<T> = T | Promise<T>;
+
+    /**
+     * Resolves a request before the app, or returns nothing to pass it on.
+     */
+    export type Resolver = (request: Request) => MaybePromise<Response | undefined | void>;
+
+    /**
+     * Exports of `hooks.server` used by the cli, in the order they run for a request:
+     * `beforeRender`, static files, prerendered pages, `resolvers`, a redirect rule or the
+     * app (`bootstrap` on the first render), the `_headers` rules, `afterRender`.
+     */
+    export type Hooks = {
+        /**
+         * Add commands to the cli, before the arguments are parsed.
+         */
         setupCLI?: (cac: CAC) => Promise<void>;
+
+        /**
+         * Run once when the app boots, before it renders.
+         */
         bootstrap?: () => Promise<void>;
-    }>;
+
+        /**
+         * Tried in order after the static files and prerendered pages, the first response wins.
+         */
+        resolvers?: Resolver[];
+
+        /**
+         * Replace the request before it is resolved, or respond in place of the whole chain.
+         */
+        beforeRender?: (request: Request) => MaybePromise<Request | Response | undefined | void>;
+
+        /**
+         * Replace the response before it is written, whatever resolved it.
+         */
+        afterRender?: (response: Response, request: Request) => MaybePromise<Response | undefined | void>;
+
+        /**
+         * Run before the process exits, only if `bootstrap` ran.
+         */
+        teardown?: () => MaybePromise<void>;
+    };
+
+    export function get_hooks(): Promise<Hooks>;
 }
 
 declare module 'MANIFEST' {
     import { SSRManifest } from '@sveltejs/kit';
+    import { StaticFiles } from './src/static';
+    import { Rules } from './src/rules';
+    import { BuildInfo } from './src/info';
     export const manifest: SSRManifest;
+    export const prerendered: Set<string>;
+    export const staticFiles: {
+        client: StaticFiles;
+        prerendered: StaticFiles;
+    };
+    export const rules: Rules;
+    export const build: BuildInfo;
 }
+
+declare const ENV_PREFIX: string;
+
+declare const RUNTIME: 'bun' | 'node';
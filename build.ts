@@ -2,12 +2,12 @@ import { join } from 'path';
 
 await Bun.$`rm -rf ${join(import.meta.dir, 'dist')}`;
 
-import { dependencies } from './package.json';
+import { dependencies, peerDependencies } from './package.json';
 
 const buildIndex = await Bun.build({
     entrypoints: [join(import.meta.dir, 'src/index.ts')],
     outdir: join(import.meta.dir, 'dist'),
-    external: Object.keys(dependencies),
+    external: [...Object.keys(dependencies), ...Object.keys(peerDependencies)],
     target: 'node'
 });
 
@@ -23,24 +23,31 @@ for (const output of buildIndex.outputs) {
     console.log(output.path);
 }
 
-const buildFiles = await Bun.build({
-    entrypoints: [join(import.meta.dir, 'src/files/index.ts')],
-    outdir: join(import.meta.dir, 'dist/files'),
-    external: ['SERVER', 'MANIFEST'],
-    target: 'bun'
-});
-
-for (const log of buildFiles.logs) {
-    console.log(log);
-}
-
-if (!buildFiles.success) {
-    process.exit(1);
+for (const runtime of ['bun', 'node'] as const) {
+    const buildFiles = await Bun.build({
+        entrypoints: [join(import.meta.dir, 'src/files/index.ts')],
+        outdir: join(import.meta.dir, 'dist/files', runtime),
+        external: ['SERVER', 'MANIFEST'],
+        target: runtime,
+        define: {
+            RUNTIME: JSON.stringify(runtime)
+        }
+    });
+
+    for (const log of buildFiles.logs) {
+        console.log(log);
+    }
+
+    if (!buildFiles.success) {
+        process.exit(1);
+    }
+
+    for (const output of buildFiles.outputs) {
+        console.log(output.path);
+    }
 }
 
-for (const output of buildFiles.outputs) {
-    console.log(output.path);
-}
+await Bun.$`cp -r ${join(import.meta.dir, 'src/templates')} ${join(import.meta.dir, 'dist/templates')}`;
 
 await Bun.$`${process.execPath} x tsc -p tsconfig-dts.json`;
 
@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { spawnSync } from 'child_process';
+import { chmodSync, mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import zlib from 'zlib';
+import { writeArchive } from './archive';
+import { listFiles } from './release';
+
+let root: string;
+let dir: string;
+
+const long = `${'nested/'.repeat(20)}file.txt`;
+
+const contents: Record<string, string | Buffer> = {
+    'index.js': '#!/usr/bin/env bun\nconsole.log(1);\n',
+    'client/app.css': 'body{}'.repeat(100),
+    'client/empty.txt': '',
+    'client/random.bin': Buffer.from(Array.from({ length: 1000 }, (_, i) => (i * 7919) % 251)),
+    'client/ünïcode.txt': 'ok',
+    [`client/${long}`]: 'deep'
+};
+
+/**
+ * Read the entries of a zip from its central directory, inflating and checking them.
+ */
+function unzip(data: Buffer) {
+    const end = data.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    const count = data.readUInt16LE(end + 10);
+    const files: Record<string, { data: Buffer; mode: number }> = {};
+    let offset = data.readUInt32LE(end + 16);
+    for (let i = 0; i < count; i++) {
+        expect(data.readUInt32LE(offset)).toBe(0x02014b50);
+        const method = data.readUInt16LE(offset + 10);
+        const crc = data.readUInt32LE(offset + 16);
+        const compressed = data.readUInt32LE(offset + 20);
+        const size = data.readUInt32LE(offset + 24);
+        const nameLength = data.readUInt16LE(offset + 28);
+        const extraLength = data.readUInt16LE(offset + 30);
+        const commentLength = data.readUInt16LE(offset + 32);
+        const mode = data.readUInt32LE(offset + 38) >>> 16;
+        const local = data.readUInt32LE(offset + 42);
+        const name = data.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+        expect(data.readUInt32LE(local)).toBe(0x04034b50);
+        const start = local + 30 + data.readUInt16LE(local + 26) + data.readUInt16LE(local + 28);
+        const body = data.subarray(start, start + compressed);
+        const content = method === 8 ? zlib.inflateRawSync(body) : Buffer.from(body);
+        expect(content.length).toBe(size);
+        expect(Bun.hash.crc32(content)).toBe(crc);
+        files[name] = { data: content, mode };
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return files;
+}
+
+beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'adapter-cli-archive-'));
+    dir = join(root, 'release');
+    for (const [path, content] of Object.entries(contents)) {
+        mkdirSync(join(dir, path, '..'), { recursive: true });
+        writeFileSync(join(dir, path), content);
+    }
+    chmodSync(join(dir, 'index.js'), 0o755);
+});
+
+afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+});
+
+describe('writeArchive', () => {
+    test('tar.gz unpacks with tar', async () => {
+        const file = join(root, 'release.tar.gz');
+        await writeArchive(dir, '1', file, 'tar.gz');
+        const out = join(root, 'untar');
+        mkdirSync(out);
+        const result = spawnSync('tar', ['-xzf', file, '-C', out], { encoding: 'utf8' });
+        expect(result.stderr).toBe('');
+        expect(result.status).toBe(0);
+        expect(listFiles(join(out, '1'))).toEqual(listFiles(dir));
+        for (const [path, content] of Object.entries(contents)) {
+            expect(readFileSync(join(out, '1', path))).toEqual(Buffer.from(content));
+        }
+        expect(statSync(join(out, '1', 'index.js')).mode & 0o777).toBe(0o755);
+    });
+
+    test('a path too long for a tar archive', async () => {
+        const deep = join(root, 'deep');
+        mkdirSync(join(deep, 'a'.repeat(160)), { recursive: true });
+        writeFileSync(join(deep, 'a'.repeat(160), 'file'), '');
+        await expect(writeArchive(deep, '1', join(root, 'deep.tar.gz'), 'tar.gz')).rejects.toThrow(
+            'Path is too long for a tar archive'
+        );
+    });
+
+    test('zip', async () => {
+        const file = join(root, 'release.zip');
+        await writeArchive(dir, '1', file, 'zip');
+        const files = unzip(readFileSync(file));
+        expect(Object.keys(files).sort()).toEqual(listFiles(dir).map((path) => `1/${path}`));
+        for (const [path, content] of Object.entries(contents)) {
+            expect(files[`1/${path}`].data).toEqual(Buffer.from(content));
+        }
+        expect(files['1/index.js'].mode & 0o777).toBe(0o755);
+    });
+});
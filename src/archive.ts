@@ -0,0 +1,145 @@
+import { createWriteStream, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import { listFiles } from './release';
+
+export type ArchiveFormat = 'tar.gz' | 'zip';
+
+/**
+ * Pack the files of a directory into an archive, every path prefixed with `prefix/`.
+ */
+export async function writeArchive(dir: string, prefix: string, file: string, format: ArchiveFormat) {
+    const entries = listFiles(dir).map((path) => ({ name: `${prefix}/${path}`, path: join(dir, path) }));
+    if (format === 'zip') {
+        await pipeline(Readable.from(zip(entries)), createWriteStream(file));
+    } else {
+        await pipeline(Readable.from(tar(entries)), zlib.createGzip(), createWriteStream(file));
+    }
+}
+
+type Entry = { name: string; path: string };
+
+function octal(value: number, length: number) {
+    return value.toString(8).padStart(length - 1, '0') + '\0';
+}
+
+/**
+ * Split a path into the name and prefix fields of a ustar header.
+ */
+function tarName(name: string): [string, string] {
+    if (Buffer.byteLength(name) <= 100) return [name, ''];
+    for (let i = name.indexOf('/'); i > 0; i = name.indexOf('/', i + 1)) {
+        if (Buffer.byteLength(name.slice(0, i)) <= 155 && Buffer.byteLength(name.slice(i + 1)) <= 100) {
+            return [name.slice(i + 1), name.slice(0, i)];
+        }
+    }
+    throw new Error(`Path is too long for a tar archive: ${name}`);
+}
+
+function* tar(entries: Entry[]) {
+    for (const entry of entries) {
+        const stat = statSync(entry.path);
+        const [name, prefix] = tarName(entry.name);
+        const header = Buffer.alloc(512);
+        header.write(name, 0, 100);
+        header.write(octal(stat.mode & 0o7777, 8), 100);
+        header.write(octal(0, 8), 108);
+        header.write(octal(0, 8), 116);
+        header.write(octal(stat.size, 12), 124);
+        header.write(octal(Math.floor(stat.mtimeMs / 1000), 12), 136);
+        // the checksum is computed with its own field filled with spaces
+        header.write(' '.repeat(8), 148);
+        header.write('0', 156);
+        header.write('ustar\0', 257);
+        header.write('00', 263);
+        header.write(prefix, 345, 155);
+        let sum = 0;
+        for (const byte of header) sum += byte;
+        header.write(sum.toString(8).padStart(6, '0') + '\0 ', 148);
+        yield header;
+        const data = readFileSync(entry.path);
+        yield data;
+        if (data.length % 512) yield Buffer.alloc(512 - (data.length % 512));
+    }
+    yield Buffer.alloc(1024);
+}
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(data: Buffer) {
+    let crc = 0xffffffff;
+    for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosTime(date: Date) {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+}
+
+function* zip(entries: Entry[]) {
+    if (entries.length >= 0xffff) throw new Error('Too many files for a zip archive.');
+    const central: Buffer[] = [];
+    let offset = 0;
+    for (const entry of entries) {
+        const stat = statSync(entry.path);
+        const data = readFileSync(entry.path);
+        const deflated = zlib.deflateRawSync(data);
+        // stored as is when deflate does not make it smaller
+        const [method, body] = deflated.length < data.length ? [8, deflated] : [0, data];
+        const name = Buffer.from(entry.name);
+        const { time, date } = dosTime(stat.mtime);
+        const crc = crc32(data);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(0x0800, 6);
+        local.writeUInt16LE(method, 8);
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(date, 12);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(body.length, 18);
+        local.writeUInt32LE(data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+
+        const header = Buffer.alloc(46);
+        header.writeUInt32LE(0x02014b50, 0);
+        // made by unix, so the permissions in the external attributes are restored
+        header.writeUInt16LE((3 << 8) | 20, 4);
+        header.writeUInt16LE(20, 6);
+        header.writeUInt16LE(0x0800, 8);
+        header.writeUInt16LE(method, 10);
+        header.writeUInt16LE(time, 12);
+        header.writeUInt16LE(date, 14);
+        header.writeUInt32LE(crc, 16);
+        header.writeUInt32LE(body.length, 20);
+        header.writeUInt32LE(data.length, 24);
+        header.writeUInt16LE(name.length, 28);
+        header.writeUInt32LE((stat.mode << 16) >>> 0, 38);
+        header.writeUInt32LE(offset, 42);
+        central.push(header, name);
+
+        yield Buffer.concat([local, name]);
+        yield body;
+        offset += local.length + name.length + body.length;
+        if (offset > 0xffffffff) throw new Error('The release is too large for a zip archive.');
+    }
+    const directory = Buffer.concat(central);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    yield directory;
+    yield end;
+}
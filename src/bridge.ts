@@ -0,0 +1,182 @@
+import type { Builder } from '@sveltejs/kit';
+import { fileURLToPath } from 'url';
+import { writeFileSync } from 'fs';
+import { relative } from 'path';
+import type { BuildArtifacts } from './compile';
+import { patternRegExp, type HeaderRule, type Rules } from './rules';
+
+const templates = fileURLToPath(new URL('./templates', import.meta.url));
+
+export type PHPBridgeOptions = {
+    /**
+     * Path to the binary of the runtime, use an absolute path if it is not in the `PATH` of the web server.
+     * @default 'bun' or 'node', following the `runtime` option
+     */
+    bun?: string;
+
+    /**
+     * Names of the environment variables passed to the cli, the whole environment of
+     * the PHP process is inherited when omitted.
+     */
+    env?: string[];
+
+    /**
+     * File to append the stderr of the cli to, relative to the output directory.
+     * @default 'error.log'
+     */
+    log?: string;
+
+    /**
+     * Write `.htaccess` which serves static files directly through apache, applying the
+     * `_headers` rules, and rewrites everything else to `index.php`.
+     * @default true
+     */
+    htaccess?: boolean;
+};
+
+export type BridgeOptions = {
+    /**
+     * Emit `index.php` implementing the render protocol for LAMP hosting.
+     * @default false
+     */
+    php?: boolean | PHPBridgeOptions;
+};
+
+/**
+ * Write the bridge into `out` for the cli in `cli`, which is a release in `out/releases/`
+ * when they differ, run through the `current` link.
+ */
+export function writeBridge(
+    builder: Builder,
+    out: string,
+    cli: string,
+    runtime: 'bun' | 'node',
+    artifacts: BuildArtifacts,
+    rules: Rules,
+    options: BridgeOptions
+) {
+    if (options.php) {
+        writePHPBridge(builder, out, cli, runtime, artifacts, rules, options.php === true ? {} : options.php);
+    }
+}
+
+function writePHPBridge(
+    builder: Builder,
+    out: string,
+    cli: string,
+    runtime: 'bun' | 'node',
+    artifacts: BuildArtifacts,
+    rules: Rules,
+    options: PHPBridgeOptions
+) {
+    const dir = cli === out ? '' : 'current/';
+    const config = {
+        // a standalone executable runs by itself
+        bun: artifacts.executable ? null : options.bun ?? runtime,
+        entry: dir + relative(cli, artifacts.entry).replaceAll('\\', '/'),
+        env: options.env ?? null,
+        log: options.log ?? 'error.log'
+    };
+    builder.copy(`${templates}/php/index.php`, `${out}/index.php`, {
+        replace: {
+            BRIDGE_CONFIG: `json_decode(${phpString(JSON.stringify(config))}, true)`
+        }
+    });
+    if (options.htaccess ?? true) {
+        writeFileSync(`${out}/.htaccess`, htaccess(builder.getAppPath(), config.log, dir, rules));
+    }
+}
+
+function phpString(str: string) {
+    return `'${str.replace(/[\\']/g, '\\$&')}'`;
+}
+
+/**
+ * A pattern as a regular expression of the `.htaccess`, where a space, `#` or `"` would end it.
+ */
+function htaccessPattern(pattern: string) {
+    return patternRegExp(pattern).source.replace(/[ #"]/g, (c) => `\\x${c.charCodeAt(0).toString(16)}`);
+}
+
+/**
+ * The `_headers` rules as `mod_headers` directives, matched against the path requested
+ * before it was rewritten to a static file. Like in the cli, the values of a header from
+ * the rules replace the value of the file.
+ */
+function headerDirectives(rules: HeaderRule[]) {
+    const matches = (rule: HeaderRule) => `reqenv('REDIRECT_BRIDGE_PATH') =~ m#${htaccessPattern(rule.pattern)}#`;
+    const block = (condition: string, directives: string[]) =>
+        `    <If "${condition}">\n${directives.map((line) => `        ${line}\n`).join('')}    </If>\n`;
+    let directives = '';
+    for (const name of new Set(rules.flatMap((rule) => rule.set.map(([name]) => name)))) {
+        const setting = rules.filter((rule) => rule.set.some(([set]) => set === name));
+        directives += block(setting.map(matches).join(' || '), [`Header unset ${name}`]);
+    }
+    for (const rule of rules) {
+        directives += block(matches(rule), [
+            ...rule.set.map(([name, value]) => `Header append ${name} "${headerValue(value)}"`),
+            ...rule.unset.map((name) => `Header unset ${name}`)
+        ]);
+    }
+    return directives;
+}
+
+/**
+ * Quote a header value for `mod_headers`, where `%` starts a format specifier.
+ */
+function headerValue(value: string) {
+    return value.replace(/["\\]/g, '\\$&').replaceAll('%', '%%');
+}
+
+function htaccess(appDir: string, log: string, dir: string, rules: Rules) {
+    const forced = rules.redirects.filter((rule) => rule.force);
+    return `# Generated by @eslym/sveltekit-adapter-cli
+Options -Indexes${dir ? ' +SymLinksIfOwnerMatch' : ''}
+DirectoryIndex index.php
+
+<Files "${log.replace(/^.*\//, '')}">
+    Require all denied
+</Files>
+
+<IfModule mod_headers.c>
+    <If "%{REQUEST_URI} =~ m#/${appDir}/immutable/#">
+        Header set Cache-Control "public,max-age=31536000,immutable"
+    </If>
+${headerDirectives(rules.headers)}</IfModule>
+
+RewriteEngine On
+
+# the directory of this file relative to the document root
+RewriteCond %{REQUEST_URI}::$1 ^(.*?/)(.*)::\\2$
+RewriteRule ^(.*)$ - [E=BRIDGE_BASE:%1]
+
+# rewritten requests are final
+RewriteCond %{ENV:REDIRECT_STATUS} !^$
+RewriteRule ^ - [L]
+${
+    forced.length
+        ? `
+# forced redirect rules are applied by the cli
+${forced.map((rule) => `RewriteCond %{REQUEST_URI} ${htaccessPattern(rule.from)}`).join(' [OR]\n')}
+RewriteRule ^ index.php [L]
+`
+        : ''
+}
+# static files
+RewriteCond %{DOCUMENT_ROOT}%{ENV:BRIDGE_BASE}${dir}client%{REQUEST_URI} -f
+RewriteRule ^ ${dir}client%{REQUEST_URI} [L,E=BRIDGE_PATH:%{REQUEST_URI}]
+
+# prerendered pages
+RewriteCond %{REQUEST_METHOD} ^(GET|HEAD)$
+RewriteCond %{REQUEST_URI} /$
+RewriteCond %{DOCUMENT_ROOT}%{ENV:BRIDGE_BASE}${dir}prerendered%{REQUEST_URI}index.html -f
+RewriteRule ^ ${dir}prerendered%{REQUEST_URI}index.html [L,E=BRIDGE_PATH:%{REQUEST_URI}]
+
+RewriteCond %{REQUEST_METHOD} ^(GET|HEAD)$
+RewriteCond %{DOCUMENT_ROOT}%{ENV:BRIDGE_BASE}${dir}prerendered%{REQUEST_URI}.html -f
+RewriteRule ^ ${dir}prerendered%{REQUEST_URI}.html [L,E=BRIDGE_PATH:%{REQUEST_URI}]
+
+# everything else is rendered by the cli
+RewriteRule ^ index.php [L]
+`;
+}
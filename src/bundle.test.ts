@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { RollupOutput } from 'rollup';
+import { externalPattern, importedPackages, serverExternals, writeProductionPackage } from './bundle';
+
+describe('serverExternals', () => {
+    const pkg = { dependencies: { a: '^1.0.0', b: '^2.0.0', '@s/c': '^3.0.0' } };
+
+    test('the dependencies which are not bundled and the extra externals', () => {
+        expect(serverExternals(pkg, false, [])).toEqual(['a', 'b', '@s/c']);
+        expect(serverExternals(pkg, ['b'], ['x'])).toEqual(['a', '@s/c', 'x']);
+        expect(serverExternals(pkg, true, ['x', 'a'])).toEqual(['x', 'a']);
+        expect(serverExternals(pkg, false, ['a'])).toEqual(['a', 'b', '@s/c']);
+        expect(serverExternals({}, false, [])).toEqual([]);
+    });
+});
+
+describe('externalPattern', () => {
+    test('a package and its deep imports', () => {
+        expect(externalPattern('lodash').test('lodash')).toBe(true);
+        expect(externalPattern('lodash').test('lodash/fp')).toBe(true);
+        expect(externalPattern('lodash').test('lodash-es')).toBe(false);
+        expect(externalPattern('@s/c').test('@s/c/deep/file.js')).toBe(true);
+        expect(externalPattern('a.b').test('axb')).toBe(false);
+    });
+});
+
+/**
+ * A bundle whose chunks import the specifiers.
+ */
+function output(...chunks: { fileName: string; imports: string[]; dynamicImports?: string[] }[]) {
+    return [
+        ...chunks.map((chunk) => ({ type: 'chunk', dynamicImports: [], ...chunk })),
+        { type: 'asset', fileName: 'index.js.map' }
+    ] as unknown as RollupOutput['output'];
+}
+
+describe('importedPackages', () => {
+    test('packages of deep and scoped imports', () => {
+        const bundle = output(
+            { fileName: 'index.js', imports: ['lodash/fp', '@s/c/deep/file.js', 'chunks/a.js', 'cookie'] },
+            { fileName: 'chunks/a.js', imports: ['./b.js', 'lodash'], dynamicImports: ['@s/d'] }
+        );
+        expect(importedPackages(bundle)).toEqual(['@s/c', '@s/d', 'cookie', 'lodash']);
+    });
+
+    test('builtins are left out', () => {
+        const bundle = output({
+            fileName: 'index.js',
+            imports: ['fs', 'node:fs', 'fs/promises', 'node:test', 'bun', 'bun:sqlite', 'a']
+        });
+        expect(importedPackages(bundle)).toEqual(['a']);
+    });
+});
+
+describe('writeProductionPackage', () => {
+    const cwd = process.cwd();
+    let root: string;
+    let out: string;
+
+    function install(path: string, version: string) {
+        mkdirSync(join(root, path), { recursive: true });
+        writeFileSync(join(root, path, 'package.json'), JSON.stringify({ version }));
+    }
+
+    function writeLock(packages: Record<string, object>) {
+        writeFileSync(join(root, 'package-lock.json'), JSON.stringify({ lockfileVersion: 3, packages }));
+    }
+
+    const read = (file: string) => JSON.parse(readFileSync(join(out, file), 'utf8'));
+
+    beforeEach(() => {
+        root = mkdtempSync(join(tmpdir(), 'adapter-cli-bundle-'));
+        out = join(root, 'build');
+        mkdirSync(out);
+        process.chdir(root);
+    });
+
+    afterEach(() => {
+        process.chdir(cwd);
+        rmSync(root, { recursive: true, force: true });
+    });
+
+    test('the installed versions and the packages which are not installed', () => {
+        install('node_modules/a', '1.2.3');
+        install('node_modules/@s/c', '3.0.0');
+        const missing = writeProductionPackage(out, { name: 'app', version: '0.0.1' }, ['a', '@s/c', 'gone']);
+        expect(missing).toEqual(['gone']);
+        expect(read('package.json')).toEqual({
+            name: 'app',
+            version: '0.0.1',
+            private: true,
+            type: 'module',
+            dependencies: { a: '1.2.3', '@s/c': '3.0.0' }
+        });
+        expect(existsSync(join(out, 'package-lock.json'))).toBe(false);
+    });
+
+    test('the subset of the lockfile with the transitive dependencies', () => {
+        install('node_modules/a', '1.0.0');
+        install('node_modules/@s/c', '3.0.0');
+        writeLock({
+            '': { name: 'app', dependencies: { a: '^1.0.0' }, devDependencies: { vite: '^5.0.0' } },
+            'node_modules/a': { version: '1.0.0', dependencies: { b: '^1.0.0', '@s/c': '^3.0.0' } },
+            'node_modules/a/node_modules/b': { version: '1.5.0' },
+            'node_modules/b': { version: '2.0.0' },
+            'node_modules/@s/c': { version: '3.0.0', dependencies: { b: '^2.0.0' }, dev: true },
+            'node_modules/vite': { version: '5.0.0', dev: true }
+        });
+        writeProductionPackage(out, { name: 'app', version: '0.0.1' }, ['a']);
+        expect(read('package-lock.json')).toEqual({
+            name: 'app',
+            version: '0.0.1',
+            lockfileVersion: 3,
+            requires: true,
+            packages: {
+                '': { name: 'app', version: '0.0.1', dependencies: { a: '1.0.0' } },
+                'node_modules/a': { version: '1.0.0', dependencies: { b: '^1.0.0', '@s/c': '^3.0.0' } },
+                // the nested copy wins over the hoisted one
+                'node_modules/a/node_modules/b': { version: '1.5.0' },
+                'node_modules/@s/c': { version: '3.0.0', dependencies: { b: '^2.0.0' } },
+                'node_modules/b': { version: '2.0.0' }
+            }
+        });
+    });
+
+    test('no lockfile when a package is missing from it', () => {
+        install('node_modules/a', '1.0.0');
+        install('node_modules/linked', '1.0.0');
+        writeLock({ 'node_modules/a': { version: '1.0.0' } });
+        writeProductionPackage(out, {}, ['a', 'linked']);
+        expect(read('package.json').dependencies).toEqual({ a: '1.0.0', linked: '1.0.0' });
+        expect(existsSync(join(out, 'package-lock.json'))).toBe(false);
+    });
+
+    test('an old lockfile is not subset', () => {
+        install('node_modules/a', '1.0.0');
+        writeFileSync(join(root, 'package-lock.json'), JSON.stringify({ lockfileVersion: 1, dependencies: {} }));
+        writeProductionPackage(out, {}, ['a']);
+        expect(existsSync(join(out, 'package-lock.json'))).toBe(false);
+    });
+});
@@ -0,0 +1,158 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { isBuiltin } from 'module';
+import { dirname, join } from 'path';
+import type { Plugin, RollupOutput } from 'rollup';
+
+type PackageJson = {
+    name?: string;
+    version?: string;
+    dependencies?: Record<string, string>;
+};
+
+type LockPackage = {
+    version?: string;
+    dependencies?: Record<string, string>;
+    optionalDependencies?: Record<string, string>;
+    dev?: boolean;
+};
+
+/**
+ * Packages left out of the server bundle: the production dependencies which are not
+ * bundled, and the extra externals.
+ */
+export function serverExternals(pkg: PackageJson, bundleDependencies: boolean | string[], external: string[]) {
+    const dependencies = Object.keys(pkg.dependencies || {});
+    const bundled = bundleDependencies === true ? dependencies : bundleDependencies || [];
+    return [...new Set([...dependencies.filter((name) => !bundled.includes(name)), ...external])];
+}
+
+/**
+ * Match a package and its deep imports.
+ */
+export function externalPattern(name: string) {
+    return new RegExp(`^${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\/.*)?$`);
+}
+
+/**
+ * Minify the chunks with esbuild, which is installed with vite.
+ */
+export function minify(): Plugin {
+    return {
+        name: 'minify',
+        async renderChunk(code) {
+            const { transform } = await import('esbuild');
+            const result = await transform(code, { loader: 'js', format: 'esm', minify: true, sourcemap: true });
+            return { code: result.code, map: result.map };
+        }
+    };
+}
+
+function packageName(specifier: string) {
+    const parts = specifier.split('/');
+    return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+/**
+ * Packages imported by the chunks of the bundle, the builtins of node and bun excluded.
+ */
+export function importedPackages(output: RollupOutput['output']) {
+    const names = new Set<string>();
+    // imports of other chunks are their file names
+    const files = new Set(output.map((chunk) => chunk.fileName));
+    for (const chunk of output) {
+        if (chunk.type !== 'chunk') continue;
+        for (const specifier of [...chunk.imports, ...chunk.dynamicImports]) {
+            if (files.has(specifier) || specifier.startsWith('.') || isBuiltin(specifier)) continue;
+            if (specifier === 'bun' || specifier.startsWith('bun:')) continue;
+            names.add(packageName(specifier));
+        }
+    }
+    return [...names].sort();
+}
+
+/**
+ * Version of a package installed for the project, looked up like the module resolution does.
+ */
+function installedVersion(name: string, from: string): string | undefined {
+    for (let dir = from; ; dir = dirname(dir)) {
+        const file = join(dir, 'node_modules', name, 'package.json');
+        if (existsSync(file)) return JSON.parse(readFileSync(file, 'utf8')).version;
+        if (dirname(dir) === dir) return undefined;
+    }
+}
+
+/**
+ * Subset of `package-lock.json` with the packages and the transitive dependencies of them,
+ * undefined when a package is not in it, as the lock would not match the `package.json`.
+ */
+function lockSubset(lock: { packages?: Record<string, LockPackage> }, names: string[]) {
+    const packages = lock.packages ?? {};
+    const subset: Record<string, LockPackage> = {};
+    const visit = (name: string, parent: string) => {
+        // the copy nested in the dependent wins over the hoisted one
+        let path = `${parent}node_modules/${name}`;
+        for (let dir = parent; !packages[path]; ) {
+            if (!dir) return;
+            dir = dir.replace(/(^|\/)node_modules\/(@[^/]+\/)?[^/]+\/$/, '$1');
+            path = `${dir}node_modules/${name}`;
+        }
+        if (subset[path]) return;
+        const { dev, ...entry } = packages[path];
+        subset[path] = entry;
+        for (const dependency of Object.keys({ ...entry.dependencies, ...entry.optionalDependencies })) {
+            visit(dependency, `${path}/`);
+        }
+    };
+    for (const name of names) {
+        if (!packages[`node_modules/${name}`]) return undefined;
+        visit(name, '');
+    }
+    return subset;
+}
+
+/**
+ * Write a `package.json` listing the packages imported by the bundle with their installed
+ * versions, and the matching subset of `package-lock.json` when the project has one.
+ * Returns the packages which are not installed.
+ */
+export function writeProductionPackage(out: string, pkg: PackageJson, names: string[]) {
+    const missing: string[] = [];
+    const dependencies: Record<string, string> = {};
+    for (const name of names) {
+        const version = installedVersion(name, process.cwd());
+        if (version) dependencies[name] = version;
+        else missing.push(name);
+    }
+    const production = {
+        name: pkg.name,
+        version: pkg.version,
+        private: true,
+        // the cli and the server are ES modules
+        type: 'module',
+        dependencies
+    };
+    writeFileSync(`${out}/package.json`, JSON.stringify(production, null, 4) + '\n');
+
+    if (existsSync('package-lock.json')) {
+        const lock = JSON.parse(readFileSync('package-lock.json', 'utf8'));
+        const subset = lock.lockfileVersion >= 2 ? lockSubset(lock, Object.keys(dependencies)) : undefined;
+        if (subset) {
+            const root = { name: pkg.name, version: pkg.version, dependencies };
+            writeFileSync(
+                `${out}/package-lock.json`,
+                JSON.stringify(
+                    {
+                        name: pkg.name,
+                        version: pkg.version,
+                        lockfileVersion: 3,
+                        requires: true,
+                        packages: { '': root, ...subset }
+                    },
+                    null,
+                    4
+                ) + '\n'
+            );
+        }
+    }
+    return missing;
+}
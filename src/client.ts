@@ -0,0 +1,190 @@
+import { spawn } from 'child_process';
+import { closeSync, existsSync, openSync, readSync } from 'fs';
+import { join } from 'path';
+import {
+    createWriter,
+    MessageDecoder,
+    toBytes,
+    type Protocol,
+    type RequestMessage,
+    type ResponseMessage
+} from './files/protocol';
+
+export type RenderOptions = {
+    /**
+     * Command to run the cli, detected from the build when omitted: `bun index.js`,
+     * `node index.js` or the executable of the `compile` option.
+     */
+    command?: string[];
+
+    /**
+     * Client address reported to the app.
+     */
+    clientIP?: string;
+
+    /**
+     * Serve static files from the build.
+     * @default true
+     */
+    static?: boolean;
+
+    /**
+     * Environment variables of the cli, inherits the current environment when omitted.
+     */
+    env?: Record<string, string | undefined>;
+
+    /**
+     * Protocol to exchange the messages with.
+     * @default 'binary'
+     */
+    protocol?: Protocol;
+
+    /**
+     * Where to send the stderr of the cli.
+     * @default 'inherit'
+     */
+    stderr?: 'inherit' | 'ignore';
+};
+
+const nullBodyStatus = new Set([101, 103, 204, 205, 304]);
+
+function defaultCommand(buildDir: string) {
+    const entry = join(buildDir, 'index.js');
+    if (!existsSync(entry)) {
+        const executable = join(buildDir, process.platform === 'win32' ? 'app.exe' : 'app');
+        if (existsSync(executable)) return [executable];
+        throw new Error(`No cli found in ${buildDir}, pass the command option instead.`);
+    }
+    // the cli built for bun starts with the `// @bun` pragma
+    const head = Buffer.alloc(7);
+    const fd = openSync(entry, 'r');
+    readSync(fd, head, 0, head.length, 0);
+    closeSync(fd);
+    if (head.toString() === '// @bun') {
+        return ['Bun' in globalThis ? process.execPath : 'bun', entry];
+    }
+    return ['Bun' in globalThis ? 'node' : process.execPath, entry];
+}
+
+/**
+ * Render a request with the `render` command of a build, the request body is streamed
+ * to the cli and the response body is streamed back. Aborting the signal of the request
+ * sends `abort` to the cli.
+ */
+export function renderRequest(buildDir: string, request: Request, options: RenderOptions = {}): Promise<Response> {
+    const [command, ...args] = options.command ?? defaultCommand(buildDir);
+    const protocol = options.protocol ?? 'binary';
+    const child = spawn(
+        command,
+        [
+            ...args,
+            'render',
+            '--url',
+            request.url,
+            '--method',
+            request.method,
+            '--client-ip',
+            options.clientIP ?? '127.0.0.1',
+            '--protocol',
+            protocol,
+            ...(options.static === false ? ['--no-static'] : [])
+        ],
+        {
+            cwd: buildDir,
+            env: options.env ?? process.env,
+            stdio: ['pipe', 'pipe', options.stderr ?? 'inherit']
+        }
+    );
+    const write = createWriter(protocol, child.stdin);
+    const send = (message: RequestMessage) => write(message);
+    child.stdin.on('error', () => {});
+
+    return new Promise<Response>((resolve, reject) => {
+        let status = 200;
+        let statusText = '';
+        const headers = new Headers();
+        let body: ReadableStreamDefaultController<Uint8Array> | undefined;
+        let settled = false;
+        let ended = false;
+
+        function fail(err: unknown) {
+            if (!settled) {
+                settled = true;
+                reject(err);
+            } else if (body && !ended) {
+                ended = true;
+                body.error(err);
+            }
+        }
+
+        const decoder = new MessageDecoder(protocol);
+        decoder.on('error', fail);
+        decoder.on('message', (message: ResponseMessage) => {
+            switch (message[0]) {
+                case 'status':
+                    status = message[1];
+                    statusText = message[2];
+                    break;
+                case 'header':
+                    headers.append(message[1], message[2]);
+                    break;
+                case 'start-body': {
+                    if (settled) break;
+                    settled = true;
+                    const stream = nullBodyStatus.has(status)
+                        ? null
+                        : new ReadableStream<Uint8Array>({
+                              start(controller) {
+                                  body = controller;
+                              },
+                              cancel() {
+                                  ended = true;
+                                  send(['abort']).catch(() => {});
+                              }
+                          });
+                    resolve(new Response(stream, { status, statusText, headers }));
+                    break;
+                }
+                case 'data':
+                    if (!ended) body?.enqueue(toBytes(message[1]));
+                    break;
+                case 'end-body':
+                    if (!ended) body?.close();
+                    ended = true;
+                    break;
+                case 'error':
+                    // before the status a fallback response follows, after it the body is truncated
+                    if (settled) fail(new Error(`${message[1]}: ${message[2]}`));
+                    break;
+            }
+        });
+        child.stdout.pipe(decoder);
+        child.on('error', fail);
+        child.on('close', (code) => fail(new Error(`render exited with code ${code} before responding`)));
+
+        const signal = request.signal;
+        const abort = () => {
+            send(['abort']).catch(() => {});
+            fail(signal.reason);
+        };
+        if (signal.aborted) return abort();
+        signal.addEventListener('abort', abort, { once: true });
+        child.on('close', () => signal.removeEventListener('abort', abort));
+
+        (async () => {
+            const headers: [string, string][] = [];
+            request.headers.forEach((value, name) => headers.push([name, value]));
+            for (const [name, value] of headers) {
+                await send(['header', name, value]);
+            }
+            await send(['start-body']);
+            if (request.body) {
+                const reader = request.body.getReader();
+                for (let read = await reader.read(); !read.done; read = await reader.read()) {
+                    await send(['data', read.value]);
+                }
+            }
+            await send(['end-body']);
+        })().catch(fail);
+    });
+}
@@ -0,0 +1,117 @@
+import type { Builder } from '@sveltejs/kit';
+import { existsSync, readdirSync, renameSync, writeFileSync } from 'fs';
+import type { StaticFiles } from './static';
+
+export type CompileOptions = {
+    /**
+     * `executable` builds a standalone executable with the compile mode of bun, `bytecode`
+     * builds a single bundle with its bytecode cache which still runs with bun.
+     * @default 'executable'
+     */
+    mode?: 'executable' | 'bytecode';
+
+    /**
+     * Target of the executable like `bun-linux-x64`, the current platform when omitted.
+     */
+    target?: string;
+
+    /**
+     * File name of the executable, relative to the output directory.
+     * @default 'app'
+     */
+    outfile?: string;
+
+    /**
+     * Embed `client/` and `prerendered/` into the executable, the directories are removed
+     * from the output. Only for the `executable` mode.
+     * @default false
+     */
+    assets?: boolean;
+};
+
+/**
+ * Files emitted for the cli, relative to the working directory.
+ */
+export type BuildArtifacts = {
+    /**
+     * The file to run the cli with, `index.js` or the executable.
+     */
+    entry: string;
+
+    /**
+     * The entry is a standalone executable.
+     */
+    executable: boolean;
+
+    /**
+     * Files and directories emitted for the cli.
+     */
+    files: string[];
+};
+
+const ENTRY = 'compile-entry.js';
+
+/**
+ * Bundle the cli together with the server into one file, replacing `index.js` and `server/`.
+ */
+export async function compileCLI(
+    builder: Builder,
+    out: string,
+    tmp: string,
+    staticFiles: Record<'client' | 'prerendered', StaticFiles>,
+    options: CompileOptions
+): Promise<BuildArtifacts> {
+    const mode = options.mode ?? 'executable';
+    const assets = mode === 'executable' && (options.assets ?? false);
+    const imports: string[] = [];
+    const embedded: string[] = [];
+    if (assets) {
+        for (const [dir, files] of Object.entries(staticFiles)) {
+            for (const path of Object.keys(files)) {
+                const variants = ['', '.gz', '.br', '.zst'].filter((ext) => existsSync(`${out}/${dir}${path}${ext}`));
+                for (const ext of variants) {
+                    const name = `asset${imports.length}`;
+                    imports.push(
+                        `import ${name} from ${JSON.stringify(`./${dir}${path}${ext}`)} with { type: 'file' };`
+                    );
+                    embedded.push(`${JSON.stringify(`/${dir}${path}${ext}`)}: ${name}`);
+                }
+            }
+        }
+    }
+    writeFileSync(
+        `${out}/${ENTRY}`,
+        imports.join('\n') +
+            `\nglobalThis[Symbol.for('@eslym/sveltekit-adapter-cli/bundle')] = {\n` +
+            `    executable: ${mode === 'executable'},\n` +
+            `    assets: {${embedded.join(', ')}}\n` +
+            `};\n` +
+            `import('./index.js');\n`
+    );
+
+    const dest = `${tmp}/compiled`;
+    builder.rimraf(dest);
+    builder.mkdirp(dest);
+    if (mode === 'executable') {
+        const outfile = options.outfile ?? 'app';
+        const target = options.target ? ['--target', options.target] : [];
+        await Bun.$`${process.execPath} build ${`${out}/${ENTRY}`} --compile --bytecode --format esm ${target} --outfile ${`${dest}/${outfile}`}`.quiet();
+    } else {
+        await Bun.$`${process.execPath} build ${`${out}/${ENTRY}`} --bytecode --target bun --format cjs --entry-naming index.[ext] --outdir ${dest}`.quiet();
+    }
+
+    builder.rimraf(`${out}/${ENTRY}`);
+    builder.rimraf(`${out}/index.js`);
+    builder.rimraf(`${out}/server`);
+    if (assets) {
+        builder.rimraf(`${out}/client`);
+        builder.rimraf(`${out}/prerendered`);
+    }
+    const files = readdirSync(dest).map((file) => {
+        renameSync(`${dest}/${file}`, `${out}/${file}`);
+        return `${out}/${file}`;
+    });
+
+    const entry = mode === 'executable' ? `${out}/${options.outfile ?? 'app'}` : `${out}/index.js`;
+    return { entry, executable: mode === 'executable', files };
+}
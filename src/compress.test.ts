@@ -0,0 +1,50 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gunzipSync } from 'zlib';
+import { compress } from './compress';
+
+let root: string;
+let cache: string;
+
+beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'adapter-cli-compress-'));
+    cache = join(root, 'cache');
+    for (const dir of ['client', 'prerendered']) mkdirSync(join(root, dir));
+});
+
+afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+});
+
+describe('compress', () => {
+    test('variants of the files of every directory', async () => {
+        writeFileSync(join(root, 'client', 'app.js'), 'console.log(1);'.repeat(100));
+        writeFileSync(join(root, 'client', 'image.png'), 'x'.repeat(1000));
+        writeFileSync(join(root, 'prerendered', 'index.html'), '<p>hello</p>'.repeat(100));
+        writeFileSync(join(root, 'prerendered', 'tiny.html'), '<p>');
+        await compress([join(root, 'client'), join(root, 'prerendered'), join(root, 'missing')], { gzip: true, cache });
+        expect(gunzipSync(readFileSync(join(root, 'client', 'app.js.gz'))).toString()).toBe(
+            'console.log(1);'.repeat(100)
+        );
+        expect(existsSync(join(root, 'prerendered', 'index.html.gz'))).toBe(true);
+        // not an extension to compress, and a variant which is not smaller
+        expect(existsSync(join(root, 'client', 'image.png.gz'))).toBe(false);
+        expect(existsSync(join(root, 'prerendered', 'tiny.html.gz'))).toBe(false);
+        expect(readdirSync(cache)).toHaveLength(3);
+    });
+
+    test('outputs the build did not use are removed from the cache', async () => {
+        writeFileSync(join(root, 'client', 'app.js'), 'console.log(2);'.repeat(100));
+        rmSync(join(root, 'prerendered', 'tiny.html'));
+        writeFileSync(join(cache, 'unrelated.txt'), '');
+        const before = readdirSync(cache);
+        await compress([join(root, 'client'), join(root, 'prerendered')], { gzip: true, cache });
+        const after = readdirSync(cache);
+        expect(after).toHaveLength(3);
+        // the entry of the unchanged page is kept, and files which are not entries are left alone
+        expect(after.filter((name) => before.includes(name))).toHaveLength(2);
+        expect(after).toContain('unrelated.txt');
+    });
+});
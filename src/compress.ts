@@ -0,0 +1,202 @@
+import zlib from 'zlib';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { availableParallelism } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import glob from 'tiny-glob';
+
+export type CompressFormat = 'gzip' | 'brotli' | 'zstd';
+
+export type PreCompressOptions = {
+    /**
+     * Enable the format, a number sets the quality level, gzip 1-9, brotli 0-11 and zstd 1-22.
+     * zstd requires bun or Node.js 22.15 or newer to build.
+     * @default false;
+     */
+    [k in CompressFormat]?: boolean | number;
+} & {
+    /**
+     * Extensions to pre-compress
+     * @default ['html','js','json','css','svg','xml','wasm']
+     */
+    files?: string[];
+
+    /**
+     * Files smaller than this many bytes are not compressed.
+     * @default 0
+     */
+    minSize?: number;
+
+    /**
+     * Minimum ratio of the original size to the compressed size to keep a variant, variants
+     * which are not smaller than the original are never kept.
+     * @default 1
+     */
+    minRatio?: number;
+
+    /**
+     * Directory to cache the compressed outputs keyed by the content hash, so unchanged
+     * files are not compressed again on the next build, `false` to disable. Outputs the
+     * build did not use are removed.
+     * @default 'node_modules/.cache/sveltekit-adapter-cli/compress'
+     */
+    cache?: string | false;
+};
+
+export type CompressFileOptions = {
+    quality?: number;
+    minRatio?: number;
+    cache?: string | false;
+
+    /**
+     * Names of the cache entries read or written are added to it.
+     */
+    used?: Set<string>;
+};
+
+const defaultCache = 'node_modules/.cache/sveltekit-adapter-cli/compress';
+
+/**
+ * File extension and default quality of each format.
+ */
+const formats = {
+    gzip: { ext: 'gz', quality: zlib.constants.Z_BEST_COMPRESSION },
+    brotli: { ext: 'br', quality: zlib.constants.BROTLI_MAX_QUALITY },
+    zstd: { ext: 'zst', quality: 19 }
+} as const;
+
+/**
+ * zstd is available since Node.js 22.15 and in bun, but not in the typings yet.
+ */
+const zstd = zlib as typeof zlib & {
+    zstdCompress?: (
+        buffer: Buffer,
+        options: { params: Record<number, number> },
+        callback: zlib.CompressCallback
+    ) => void;
+    constants: { ZSTD_c_compressionLevel?: number };
+};
+
+export function supportsZstd() {
+    return typeof zstd.zstdCompress === 'function';
+}
+
+/**
+ * Compress the files of the directories, then remove the cached outputs none of them used.
+ */
+export async function compress(directories: string[], options: true | PreCompressOptions) {
+    const files_ext =
+        options === true || !options.files ? ['html', 'js', 'json', 'css', 'svg', 'xml', 'wasm'] : options.files;
+    const found = await Promise.all(
+        directories
+            .filter((directory) => existsSync(directory))
+            .map((directory) =>
+                glob(`**/*.{${files_ext.join()}}`, {
+                    cwd: directory,
+                    dot: true,
+                    absolute: true,
+                    filesOnly: true
+                })
+            )
+    );
+    const files = found.flat();
+
+    const settings: PreCompressOptions = options === true ? { gzip: true, brotli: true } : options;
+    const enabled = (Object.keys(formats) as CompressFormat[]).filter((format) => settings[format]);
+    const minSize = settings.minSize ?? 0;
+    const cache = settings.cache ?? defaultCache;
+    const used = new Set<string>();
+    const fileOptions = (format: CompressFormat): CompressFileOptions => {
+        const quality = settings[format];
+        return {
+            quality: typeof quality === 'number' ? quality : undefined,
+            minRatio: settings.minRatio,
+            cache,
+            used
+        };
+    };
+
+    // a few files at a time, so the output is never read into memory as a whole
+    const queue = [...files];
+    const next = async () => {
+        while (queue.length) {
+            const file = queue.shift()!;
+            const data = readFileSync(file);
+            if (data.length < minSize) continue;
+            await Promise.all(enabled.map((format) => compress_file(file, format, fileOptions(format), data)));
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(availableParallelism(), files.length) }, next));
+
+    if (cache && existsSync(cache)) {
+        for (const name of readdirSync(cache)) {
+            if (/^[0-9a-f]{64}\.(gz|br|zst)\d+$/.test(name) && !used.has(name)) {
+                rmSync(join(cache, name), { force: true });
+            }
+        }
+    }
+}
+
+function compressBuffer(data: Buffer, format: CompressFormat, quality: number): Promise<Buffer> {
+    switch (format) {
+        case 'brotli':
+            return promisify(zlib.brotliCompress)(data, {
+                params: {
+                    [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+                    [zlib.constants.BROTLI_PARAM_QUALITY]: quality,
+                    [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length
+                }
+            });
+        case 'zstd':
+            return promisify(zstd.zstdCompress!)(data, {
+                params: { [zstd.constants.ZSTD_c_compressionLevel!]: quality }
+            });
+        default:
+            return promisify(zlib.gzip)(data, { level: quality });
+    }
+}
+
+/**
+ * Write the compressed variant next to the file, removes it instead if it does not
+ * compress well enough. Resolves whether the variant is kept.
+ */
+export async function compress_file(
+    file: string,
+    format: CompressFormat = 'gzip',
+    options: CompressFileOptions = {},
+    data = readFileSync(file)
+) {
+    if (format === 'brotli' && typeof zlib.brotliCompress !== 'function') {
+        throw new Error(
+            'Brotli compression is not supported, this might happens if you are using Bun to build your project instead of Node JS. See https://github.com/oven-sh/bun/issues/267'
+        );
+    }
+    if (format === 'zstd' && !supportsZstd()) {
+        throw new Error('zstd compression is not supported, please use bun or Node.js 22.15 or newer to build.');
+    }
+    const { ext } = formats[format];
+    const quality = options.quality ?? formats[format].quality;
+    const entry = options.cache ? `${createHash('sha256').update(data).digest('hex')}.${ext}${quality}` : undefined;
+    const cached = entry ? join(options.cache as string, entry) : undefined;
+    if (entry) options.used?.add(entry);
+
+    let compressed: Buffer;
+    if (cached && existsSync(cached)) {
+        compressed = readFileSync(cached);
+    } else {
+        compressed = await compressBuffer(data, format, quality);
+        if (cached) {
+            mkdirSync(options.cache as string, { recursive: true });
+            writeFileSync(cached, compressed);
+        }
+    }
+
+    const output = `${file}.${ext}`;
+    if (compressed.length >= data.length || data.length / compressed.length < (options.minRatio ?? 1)) {
+        rmSync(output, { force: true });
+        return false;
+    }
+    writeFileSync(output, compressed);
+    return true;
+}
@@ -0,0 +1,76 @@
+import type { Hooks, Server } from 'SERVER';
+import { manifest } from 'MANIFEST';
+import { SYM_SERVER } from './symbols';
+import { runtime } from './runtime';
+import type { BootTimings } from './log';
+
+let server: Promise<Server> | undefined;
+let hooks: Promise<Hooks> | undefined;
+let booted: Promise<void> | undefined;
+let timings: BootTimings | undefined;
+let exiting: Promise<never> | undefined;
+
+/**
+ * Import the server of the app and put it in place, once. It is imported on first use, so
+ * `doctor` reports the dependencies it is missing instead of failing to start.
+ */
+export function loadServer() {
+    server ??= import('SERVER').then(({ Server }) => ((globalThis as any)[SYM_SERVER] ??= new Server(manifest)));
+    return server;
+}
+
+/**
+ * The hooks exported by `hooks.server`, loaded once.
+ */
+export function appHooks() {
+    hooks ??= import('SERVER').then(({ get_hooks }) => get_hooks());
+    return hooks;
+}
+
+/**
+ * Initialize the server and run the `bootstrap` hook, once per process however often
+ * it is called.
+ */
+export function boot() {
+    booted ??= (async () => {
+        const server = await loadServer();
+        const start = performance.now();
+        await server.init({ env: runtime.env as Record<string, string> });
+        const initialized = performance.now();
+        await (await appHooks()).bootstrap?.();
+        timings = { init: initialized - start, bootstrap: performance.now() - initialized };
+    })();
+    return booted;
+}
+
+/**
+ * Timings of `boot`, only returned once so they are logged with a single request.
+ */
+export function takeBootTimings() {
+    const taken = timings;
+    timings = undefined;
+    return taken;
+}
+
+/**
+ * Run the `teardown` hook if the app was booted, then exit the process.
+ */
+export function exitProcess(code?: number) {
+    exiting ??= (async () => {
+        if (
+            booted &&
+            (await booted.then(
+                () => true,
+                () => false
+            ))
+        ) {
+            try {
+                await (await appHooks()).teardown?.();
+            } catch (err) {
+                console.error(err);
+            }
+        }
+        return process.exit(code);
+    })();
+    return exiting;
+}
@@ -0,0 +1,128 @@
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { cached, cacheStats, purgeCache } from './cache';
+
+const dir = mkdtempSync(join(tmpdir(), 'adapter-cli-cache-'));
+let rendered = 0;
+
+function render(request: Request) {
+    rendered++;
+    return Promise.resolve(
+        new Response(`${request.method} ${new URL(request.url).pathname}`, {
+            headers: { 'cache-control': 'max-age=60', etag: '"v1"' }
+        })
+    );
+}
+
+function request(path: string, method = 'GET', headers: Record<string, string> = {}) {
+    return new Request(`http://localhost${path}`, { method, headers });
+}
+
+/**
+ * All the files in the cache, relative to it.
+ */
+function files() {
+    if (!existsSync(dir)) return [];
+    return readdirSync(dir, { recursive: true, encoding: 'utf8' })
+        .filter((name) => name.includes('/'))
+        .sort();
+}
+
+beforeEach(() => {
+    process.env.CACHE_DIR = dir;
+    rmSync(dir, { recursive: true, force: true });
+    rendered = 0;
+});
+
+afterAll(() => {
+    delete process.env.CACHE_DIR;
+    rmSync(dir, { recursive: true, force: true });
+});
+
+describe('cached', () => {
+    test('a miss is stored and served on the next request', async () => {
+        const miss = await cached(request('/page'), render);
+        expect(miss.headers.has('x-cache')).toBe(false);
+        expect(await miss.text()).toBe('GET /page');
+        const hit = await cached(request('/page'), render);
+        expect(hit.headers.get('x-cache')).toBe('HIT');
+        expect(hit.headers.get('age')).toBe('0');
+        expect(await hit.text()).toBe('GET /page');
+        expect(rendered).toBe(1);
+    });
+
+    test('a HEAD request is served from the entry of the GET', async () => {
+        await cached(request('/page', 'HEAD'), render);
+        expect(files()).toEqual([]);
+        await cached(request('/page'), render);
+        const head = await cached(request('/page', 'HEAD'), render);
+        expect(head.headers.get('x-cache')).toBe('HIT');
+        expect(rendered).toBe(2);
+    });
+
+    test('other methods are not cached', async () => {
+        await cached(request('/page', 'POST'), render);
+        await cached(request('/page', 'POST'), render);
+        expect(rendered).toBe(2);
+        expect(files()).toEqual([]);
+    });
+
+    test('a conditional request is answered from the entry', async () => {
+        await cached(request('/page'), render);
+        const res = await cached(request('/page', 'GET', { 'if-none-match': '"v1"' }), render);
+        expect(res.status).toBe(304);
+        expect(res.headers.get('x-cache')).toBe('HIT');
+    });
+
+    test('an entry is written to a temporary file and renamed', async () => {
+        await cached(request('/page'), render);
+        const stored = files();
+        expect(stored).toHaveLength(1);
+        expect(stored[0]).toMatch(/^[0-9a-f]{2}\/[0-9a-f]{64}$/);
+        // neither the temporary file nor the lock is left behind
+        await cached(request('/other'), render);
+        expect(files().filter((name) => name.endsWith('.tmp') || name.endsWith('.lock'))).toEqual([]);
+    });
+
+    test('a response is not stored while another process holds the lock', async () => {
+        await cached(request('/page'), render);
+        const [entry] = files();
+        rmSync(join(dir, entry));
+        writeFileSync(join(dir, `${entry}.lock`), '');
+        const res = await cached(request('/page'), render);
+        expect(await res.text()).toBe('GET /page');
+        expect(files()).toEqual([`${entry}.lock`]);
+        await cached(request('/page'), render);
+        expect(rendered).toBe(3);
+    });
+
+    test('a stale lock is taken over', async () => {
+        await cached(request('/page'), render);
+        const [entry] = files();
+        rmSync(join(dir, entry));
+        const lock = join(dir, `${entry}.lock`);
+        writeFileSync(lock, '');
+        const past = new Date(Date.now() - 60_000);
+        utimesSync(lock, past, past);
+        await cached(request('/page'), render);
+        expect(existsSync(lock)).toBe(false);
+        expect(files()).toEqual([entry]);
+        const hit = await cached(request('/page'), render);
+        expect(hit.headers.get('x-cache')).toBe('HIT');
+    });
+});
+
+describe('purgeCache and cacheStats', () => {
+    test('entries matching a glob', async () => {
+        await cached(request('/blog/a'), render);
+        await cached(request('/blog/b'), render);
+        await cached(request('/about'), render);
+        expect(cacheStats(dir)).toMatchObject({ entries: 3, fresh: 3, stale: 0, expired: 0 });
+        expect(purgeCache(dir, '/blog/*')).toBe(2);
+        expect(cacheStats(dir).entries).toBe(1);
+        expect(purgeCache(dir)).toBe(1);
+        expect(cacheStats(dir).entries).toBe(0);
+    });
+});
@@ -0,0 +1,316 @@
+import { createHash, randomUUID } from 'crypto';
+import {
+    closeSync,
+    existsSync,
+    mkdirSync,
+    openSync,
+    readdirSync,
+    readFileSync,
+    renameSync,
+    rmSync,
+    statSync,
+    writeFileSync
+} from 'fs';
+import { dirname, join, resolve } from 'path';
+import { env } from './env';
+import { runtime } from './runtime';
+import { currentRequestContext } from './context';
+import { evaluatePreconditions } from './conditional';
+
+type CacheEntry = {
+    url: string;
+
+    /**
+     * Values of the request headers the response varies on, null when absent.
+     */
+    vary: Record<string, string | null>;
+
+    status: number;
+    statusText: string;
+    headers: [string, string][];
+
+    /**
+     * Time the response was stored in milliseconds.
+     */
+    stored: number;
+
+    /**
+     * Seconds the response is fresh, from `s-maxage` or `max-age`.
+     */
+    maxAge: number;
+
+    /**
+     * Seconds a stale response is still served while revalidating.
+     */
+    staleWhileRevalidate: number;
+};
+
+export type CacheStats = {
+    entries: number;
+    fresh: number;
+    stale: number;
+    expired: number;
+    bytes: number;
+};
+
+/**
+ * Statuses which are cacheable by default, RFC 9110 section 15.1.
+ */
+const cacheableStatus = new Set([200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501]);
+
+/**
+ * A lock older than this is left behind by a crashed process and taken over.
+ */
+const LOCK_TIMEOUT = 30_000;
+
+const conditionalHeaders = ['if-match', 'if-none-match', 'if-modified-since', 'if-unmodified-since', 'if-range'];
+
+/**
+ * Directory of the cache, relative paths are resolved against the cli, disabled when
+ * `CACHE_DIR` is not set.
+ */
+export function cacheDir() {
+    const dir = env('CACHE_DIR');
+    return dir ? resolve(runtime.baseDir, dir) : undefined;
+}
+
+function configuredVary() {
+    return env('CACHE_VARY', '')
+        .split(',')
+        .map((name) => name.trim().toLowerCase())
+        .filter(Boolean);
+}
+
+function directives(header: string | null) {
+    const found = new Map<string, string>();
+    for (const part of (header ?? '').split(',')) {
+        const [name, value = ''] = part.split('=');
+        if (name.trim()) found.set(name.trim().toLowerCase(), value.trim().replace(/^"|"$/g, ''));
+    }
+    return found;
+}
+
+function seconds(value: string | undefined) {
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : 0;
+}
+
+/**
+ * Freshness of a response for a shared cache, undefined if it must not be stored.
+ */
+function freshness(res: Response) {
+    if (!cacheableStatus.has(res.status) || res.headers.has('set-cookie')) return undefined;
+    const cc = directives(res.headers.get('cache-control'));
+    if (cc.has('no-store') || cc.has('private') || cc.has('no-cache')) return undefined;
+    const maxAge = seconds(cc.get('s-maxage') ?? cc.get('max-age'));
+    if (!maxAge) return undefined;
+    return { maxAge, staleWhileRevalidate: seconds(cc.get('stale-while-revalidate')) };
+}
+
+/**
+ * Path of the entry of a request, a HEAD request is served from the entry of the GET.
+ */
+function entryPath(dir: string, request: Request) {
+    const method = request.method === 'HEAD' ? 'GET' : request.method;
+    const key = createHash('sha256')
+        .update(JSON.stringify([method, request.url, ...configuredVary().map((name) => request.headers.get(name))]))
+        .digest('hex');
+    return join(dir, key.slice(0, 2), key);
+}
+
+/**
+ * An entry is a line of json followed by the body.
+ */
+function readEntry(path: string): [CacheEntry, Buffer] | undefined {
+    let data: Buffer;
+    try {
+        data = readFileSync(path);
+    } catch {
+        return undefined;
+    }
+    const lf = data.indexOf(10);
+    try {
+        return [JSON.parse(data.subarray(0, lf).toString('utf8')), data.subarray(lf + 1)];
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Replace the entry by renaming, so concurrent readers see either the old or the new one.
+ */
+function writeEntry(path: string, entry: CacheEntry, body: Buffer) {
+    mkdirSync(dirname(path), { recursive: true });
+    const temp = `${path}.${randomUUID()}.tmp`;
+    writeFileSync(temp, Buffer.concat([Buffer.from(JSON.stringify(entry) + '\n'), body]));
+    renameSync(temp, path);
+}
+
+/**
+ * Take the lock of an entry, returns the release function or undefined if another
+ * process holds it.
+ */
+function lock(path: string) {
+    const file = `${path}.lock`;
+    mkdirSync(dirname(file), { recursive: true });
+    for (let attempt = 0; attempt < 2; attempt++) {
+        try {
+            closeSync(openSync(file, 'wx'));
+            return () => rmSync(file, { force: true });
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+        }
+        try {
+            if (Date.now() - statSync(file).mtimeMs < LOCK_TIMEOUT) return undefined;
+            rmSync(file, { force: true });
+        } catch {
+            // released in the meantime
+        }
+    }
+    return undefined;
+}
+
+function age(entry: CacheEntry) {
+    return Math.max(0, Math.floor((Date.now() - entry.stored) / 1000));
+}
+
+function matchesVary(entry: CacheEntry, request: Request) {
+    return Object.entries(entry.vary).every(([name, value]) => request.headers.get(name) === value);
+}
+
+function cachedResponse(request: Request, entry: CacheEntry, body: Buffer, state: 'HIT' | 'STALE') {
+    const headers = new Headers(entry.headers);
+    headers.set('age', `${age(entry)}`);
+    headers.set('x-cache', state);
+    const context = currentRequestContext();
+    if (context) context.cache = state;
+    const etag = headers.get('etag');
+    if (etag) {
+        const precondition = evaluatePreconditions(request, {
+            etag,
+            lastModified: Date.parse(headers.get('last-modified') ?? '')
+        });
+        if (precondition) {
+            return new Response(null, { status: precondition, headers: precondition === 304 ? headers : undefined });
+        }
+    }
+    return new Response(entry.status === 204 ? null : body, {
+        status: entry.status,
+        statusText: entry.statusText,
+        headers
+    });
+}
+
+/**
+ * Store the response if it is cacheable, the body is read into memory to do so. The
+ * caller holds the lock of the entry.
+ */
+async function store(path: string, request: Request, res: Response) {
+    const fresh = freshness(res);
+    const names = [...configuredVary(), ...(res.headers.get('vary') ?? '').split(',')]
+        .map((name) => name.trim().toLowerCase())
+        .filter(Boolean);
+    if (!fresh || names.includes('*')) return res;
+    const body = Buffer.from(await res.arrayBuffer());
+    const headers: [string, string][] = [];
+    res.headers.forEach((value, name) => headers.push([name, value]));
+    const entry: CacheEntry = {
+        url: request.url,
+        vary: Object.fromEntries(names.map((name) => [name, request.headers.get(name)])),
+        status: res.status,
+        statusText: res.statusText,
+        headers,
+        stored: Date.now(),
+        ...fresh
+    };
+    writeEntry(path, entry, body);
+    return new Response(res.status === 204 ? null : body, res);
+}
+
+/**
+ * Serve a GET or HEAD request from the cache in `CACHE_DIR`, rendering and storing the
+ * response on a miss. A stale response within `stale-while-revalidate` is served while
+ * a fresh one is rendered as a `waitUntil` task.
+ */
+export async function cached(request: Request, render: (request: Request) => Promise<Response>) {
+    const dir = cacheDir();
+    if (!dir || (request.method !== 'GET' && request.method !== 'HEAD') || request.headers.has('authorization')) {
+        return render(request);
+    }
+    const path = entryPath(dir, request);
+    const found = readEntry(path);
+    if (found && matchesVary(found[0], request)) {
+        const [entry, body] = found;
+        const current = age(entry);
+        if (current < entry.maxAge) return cachedResponse(request, entry, body, 'HIT');
+        const context = currentRequestContext();
+        if (context && current < entry.maxAge + entry.staleWhileRevalidate) {
+            // only one process revalidates, the others keep serving the stale response
+            const release = lock(path);
+            if (release) {
+                const headers = new Headers(request.headers);
+                conditionalHeaders.forEach((name) => headers.delete(name));
+                const revalidate = new Request(request.url, { headers });
+                context.waitUntil(
+                    render(revalidate)
+                        .then((res) => store(path, revalidate, res))
+                        .then((res) => res.body?.cancel())
+                        .finally(release)
+                );
+            }
+            return cachedResponse(request, entry, body, 'STALE');
+        }
+    }
+    const res = await render(request);
+    if (request.method !== 'GET') return res;
+    // another process is writing the same entry
+    const release = lock(path);
+    if (!release) return res;
+    try {
+        return await store(path, request, res);
+    } finally {
+        release();
+    }
+}
+
+function* entries(dir: string): Generator<string> {
+    if (!existsSync(dir)) return;
+    for (const shard of readdirSync(dir)) {
+        if (!/^[0-9a-f]{2}$/.test(shard)) continue;
+        for (const name of readdirSync(join(dir, shard))) {
+            if (/^[0-9a-f]{64}$/.test(name)) yield join(dir, shard, name);
+        }
+    }
+}
+
+/**
+ * Remove the entries whose path matches the glob, or all entries without a pattern.
+ */
+export function purgeCache(dir: string, pattern?: string) {
+    const match = pattern ? runtime.glob(pattern) : undefined;
+    let purged = 0;
+    for (const path of entries(dir)) {
+        if (match) {
+            const entry = readEntry(path)?.[0];
+            if (entry && !match(new URL(entry.url).pathname)) continue;
+        }
+        rmSync(path, { force: true });
+        purged++;
+    }
+    return purged;
+}
+
+export function cacheStats(dir: string): CacheStats {
+    const stats: CacheStats = { entries: 0, fresh: 0, stale: 0, expired: 0, bytes: 0 };
+    for (const path of entries(dir)) {
+        const entry = readEntry(path)?.[0];
+        if (!entry) continue;
+        stats.entries++;
+        stats.bytes += statSync(path).size;
+        const current = age(entry);
+        if (current < entry.maxAge) stats.fresh++;
+        else if (current < entry.maxAge + entry.staleWhileRevalidate) stats.stale++;
+        else stats.expired++;
+    }
+    return stats;
+}
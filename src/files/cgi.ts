@@ -0,0 +1,141 @@
+import { Readable } from 'stream';
+import { STATUS_CODES } from 'http';
+import { createRequestContext, installRequestContext, withRequestContext } from './context';
+import { createRequest, hasBody, isMethod, redirectConsole, serve, type HandleOptions } from './handle';
+import { errorResponse, exceedsBodySizeLimit } from './limits';
+import { EXIT_APP_ERROR, EXIT_OK } from './errors';
+import { runtime } from './runtime';
+import { accessLog, requestTimer, type RequestTimer } from './log';
+import { exitProcess } from './app';
+
+const env = runtime.env;
+
+export type CGIEnv = Record<string, string | undefined>;
+
+export type CGIOptions = {
+    static: boolean;
+};
+
+/**
+ * Handle a single request following CGI/1.1 (RFC 3875), the request is read from
+ * the environment and stdin, and the raw response is written to stdout.
+ */
+export function cgi(options: CGIOptions) {
+    redirectConsole();
+    installRequestContext();
+    const method = (env.REQUEST_METHOD ?? 'GET').toUpperCase();
+    if (!isMethod(method)) {
+        return exit(writeCGIResponse(errorResponse(400), false));
+    }
+    const url = cgiRequestURL(env);
+    if (!url) {
+        return exit(writeCGIResponse(errorResponse(400), false));
+    }
+    const length = Number(env.CONTENT_LENGTH || 0);
+    const handleOptions: HandleOptions = {
+        url,
+        method,
+        clientIP: env.REMOTE_ADDR,
+        static: options.static
+    };
+    const headers = cgiRequestHeaders(env);
+    const timer = requestTimer(method, url, headers, env.REMOTE_ADDR);
+    if (exceedsBodySizeLimit(headers)) {
+        return exit(writeCGIResponse(errorResponse(413), method === 'HEAD'));
+    }
+    const req = createRequest(url, {
+        method,
+        headers,
+        body: length > 0 && hasBody(method) ? (Readable.toWeb(Readable.from(readStdin(length))) as any) : null
+    });
+    const context = createRequestContext();
+    let code = EXIT_OK;
+    let headSent = false;
+    timer.dispatch();
+    exit(
+        withRequestContext(context, () => serve(req, handleOptions))
+            .then((res) => writeCGIResponse(res, method === 'HEAD', timer, () => (headSent = true)))
+            .catch((err) => {
+                console.error(err);
+                code = EXIT_APP_ERROR;
+                // the body is cut short, a second response would end up inside it
+                if (headSent) return;
+                return writeCGIResponse(errorResponse(500), false, timer);
+            })
+            .finally(() => context.settled())
+            .then(() => accessLog(timer.entry(context.source)).catch(console.error))
+            .then(() => code)
+    );
+}
+
+function exit(promise: Promise<any>) {
+    promise.catch(console.error).then((code) => exitProcess(typeof code === 'number' ? code : EXIT_OK));
+}
+
+export function cgiRequestURL(env: CGIEnv) {
+    const https = env.HTTPS !== undefined && env.HTTPS !== '' && env.HTTPS.toLowerCase() !== 'off';
+    const port = env.SERVER_PORT;
+    const host =
+        env.HTTP_HOST ||
+        `${env.SERVER_NAME ?? 'localhost'}${port && port !== (https ? '443' : '80') ? `:${port}` : ''}`;
+    const path =
+        env.REQUEST_URI ||
+        `${env.SCRIPT_NAME ?? ''}${env.PATH_INFO ?? ''}${env.QUERY_STRING ? `?${env.QUERY_STRING}` : ''}`;
+    const url = `${https ? 'https' : 'http'}://${host}${path.startsWith('/') ? path : `/${path}`}`;
+    return URL.canParse(url) ? new URL(url) : undefined;
+}
+
+export function cgiRequestHeaders(env: CGIEnv) {
+    const headers = new Headers();
+    for (const [key, value] of Object.entries(env)) {
+        if (value === undefined || !key.startsWith('HTTP_')) continue;
+        headers.append(key.substring(5).toLowerCase().replaceAll('_', '-'), value);
+    }
+    if (env.CONTENT_TYPE) headers.set('content-type', env.CONTENT_TYPE);
+    if (env.CONTENT_LENGTH) headers.set('content-length', env.CONTENT_LENGTH);
+    return headers;
+}
+
+async function* readStdin(length: number) {
+    let remaining = length;
+    for await (const chunk of process.stdin) {
+        const buff = chunk as Buffer;
+        if (buff.length >= remaining) {
+            yield buff.subarray(0, remaining);
+            return;
+        }
+        remaining -= buff.length;
+        yield buff;
+    }
+}
+
+export function cgiResponseHead(res: Response) {
+    let head = `Status: ${res.status} ${res.statusText || STATUS_CODES[res.status] || ''}\r\n`;
+    res.headers.forEach((val, key) => {
+        head += `${key}: ${val}\r\n`;
+    });
+    return head + '\r\n';
+}
+
+async function writeCGIResponse(res: Response, ignoreBody: boolean, timer?: RequestTimer, onHead?: () => void) {
+    timer?.resolve(res.status);
+    await writeRaw(cgiResponseHead(res));
+    onHead?.();
+    if (res.body && !ignoreBody) {
+        const reader = res.body.getReader();
+        for (let read = await reader.read(); !read.done; read = await reader.read()) {
+            timer?.send(read.value.byteLength);
+            await writeRaw(read.value);
+        }
+    }
+    timer?.stream();
+}
+
+function writeRaw(data: string | Uint8Array) {
+    return new Promise<void>((res, rej) => {
+        process.stdout.write(data, (err) => {
+            if (err) rej(err);
+            else res();
+        });
+    });
+}
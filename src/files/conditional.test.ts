@@ -0,0 +1,195 @@
+import { describe, expect, test } from 'bun:test';
+import { evaluatePreconditions, isRangeFresh, negotiateEncoding, parseRange, type Validators } from './conditional';
+
+const validators: Validators = {
+    etag: '"abc"',
+    lastModified: Date.parse('Wed, 01 May 2024 12:00:00 GMT')
+};
+
+const before = 'Tue, 30 Apr 2024 12:00:00 GMT';
+const at = 'Wed, 01 May 2024 12:00:00 GMT';
+const after = 'Thu, 02 May 2024 12:00:00 GMT';
+
+function request(headers: Record<string, string>, method = 'GET') {
+    return new Request('http://localhost/file', { method, headers });
+}
+
+describe('evaluatePreconditions', () => {
+    test('no preconditions', () => {
+        expect(evaluatePreconditions(request({}), validators)).toBeUndefined();
+    });
+
+    test('If-Match', () => {
+        expect(evaluatePreconditions(request({ 'if-match': '"abc"' }), validators)).toBeUndefined();
+        expect(evaluatePreconditions(request({ 'if-match': '"x", "abc"' }), validators)).toBeUndefined();
+        expect(evaluatePreconditions(request({ 'if-match': '*' }), validators)).toBeUndefined();
+        expect(evaluatePreconditions(request({ 'if-match': '"x"' }), validators)).toBe(412);
+        // the comparison is strong
+        expect(evaluatePreconditions(request({ 'if-match': 'W/"abc"' }), validators)).toBe(412);
+        expect(evaluatePreconditions(request({ 'if-match': '"abc"' }), { ...validators, etag: 'W/"abc"' })).toBe(412);
+    });
+
+    test('If-None-Match', () => {
+        expect(evaluatePreconditions(request({ 'if-none-match': '"abc"' }), validators)).toBe(304);
+        expect(evaluatePreconditions(request({ 'if-none-match': '"abc"' }, 'HEAD'), validators)).toBe(304);
+        expect(evaluatePreconditions(request({ 'if-none-match': '*' }), validators)).toBe(304);
+        expect(evaluatePreconditions(request({ 'if-none-match': '"x"' }), validators)).toBeUndefined();
+        expect(evaluatePreconditions(request({ 'if-none-match': '"abc"' }, 'POST'), validators)).toBe(412);
+    });
+
+    test('If-None-Match with weak etags', () => {
+        expect(evaluatePreconditions(request({ 'if-none-match': 'W/"abc"' }), validators)).toBe(304);
+        expect(evaluatePreconditions(request({ 'if-none-match': '"abc"' }), { ...validators, etag: 'W/"abc"' })).toBe(
+            304
+        );
+        expect(evaluatePreconditions(request({ 'if-none-match': 'W/"x", W/"abc"' }), validators)).toBe(304);
+        expect(evaluatePreconditions(request({ 'if-none-match': 'W/"x"' }), validators)).toBeUndefined();
+    });
+
+    test('If-Modified-Since', () => {
+        expect(evaluatePreconditions(request({ 'if-modified-since': at }), validators)).toBe(304);
+        expect(evaluatePreconditions(request({ 'if-modified-since': after }), validators)).toBe(304);
+        expect(evaluatePreconditions(request({ 'if-modified-since': before }), validators)).toBeUndefined();
+        expect(evaluatePreconditions(request({ 'if-modified-since': 'yesterday' }), validators)).toBeUndefined();
+        // only for GET and HEAD
+        expect(evaluatePreconditions(request({ 'if-modified-since': at }, 'POST'), validators)).toBeUndefined();
+    });
+
+    test('If-Unmodified-Since', () => {
+        expect(evaluatePreconditions(request({ 'if-unmodified-since': at }), validators)).toBeUndefined();
+        expect(evaluatePreconditions(request({ 'if-unmodified-since': after }), validators)).toBeUndefined();
+        expect(evaluatePreconditions(request({ 'if-unmodified-since': before }), validators)).toBe(412);
+        expect(evaluatePreconditions(request({ 'if-unmodified-since': before }, 'PUT'), validators)).toBe(412);
+        expect(evaluatePreconditions(request({ 'if-unmodified-since': 'yesterday' }), validators)).toBeUndefined();
+    });
+
+    test('If-Match wins over If-Unmodified-Since', () => {
+        expect(
+            evaluatePreconditions(request({ 'if-match': '"abc"', 'if-unmodified-since': before }), validators)
+        ).toBeUndefined();
+        expect(evaluatePreconditions(request({ 'if-match': '"x"', 'if-unmodified-since': after }), validators)).toBe(
+            412
+        );
+    });
+
+    test('If-None-Match wins over If-Modified-Since', () => {
+        expect(
+            evaluatePreconditions(request({ 'if-none-match': '"x"', 'if-modified-since': after }), validators)
+        ).toBeUndefined();
+        expect(
+            evaluatePreconditions(request({ 'if-none-match': '"abc"', 'if-modified-since': before }), validators)
+        ).toBe(304);
+    });
+
+    test('a failed If-Match is checked before If-None-Match', () => {
+        expect(evaluatePreconditions(request({ 'if-match': '"x"', 'if-none-match': '"abc"' }), validators)).toBe(412);
+    });
+});
+
+describe('negotiateEncoding', () => {
+    const available = ['br', 'gzip'];
+
+    test('without Accept-Encoding', () => {
+        expect(negotiateEncoding(null, available)).toBe('identity');
+    });
+
+    test('the preferred available encoding', () => {
+        expect(negotiateEncoding('gzip, br', available)).toBe('br');
+        expect(negotiateEncoding('gzip', available)).toBe('gzip');
+        expect(negotiateEncoding('deflate', available)).toBe('identity');
+        expect(negotiateEncoding('GZIP', available)).toBe('gzip');
+    });
+
+    test('q-values', () => {
+        expect(negotiateEncoding('br;q=0.5, gzip;q=0.8', available)).toBe('gzip');
+        expect(negotiateEncoding('br;q=1, gzip;q=0.8', available)).toBe('br');
+        expect(negotiateEncoding('br;q=0, gzip', available)).toBe('gzip');
+        expect(negotiateEncoding('br;q=0, gzip;q=0', available)).toBe('identity');
+        expect(negotiateEncoding('gzip;q=0.5, identity;q=0.8', available)).toBe('identity');
+        expect(negotiateEncoding('gzip;q=0.8, identity;q=0.8', available)).toBe('gzip');
+    });
+
+    test('identity;q=0', () => {
+        expect(negotiateEncoding('gzip, identity;q=0', available)).toBe('gzip');
+        expect(negotiateEncoding('deflate, identity;q=0', available)).toBe('identity');
+    });
+
+    test('*', () => {
+        expect(negotiateEncoding('*', available)).toBe('br');
+        expect(negotiateEncoding('*;q=0.5, gzip', available)).toBe('gzip');
+        expect(negotiateEncoding('*;q=0', available)).toBe('identity');
+        expect(negotiateEncoding('br;q=0, *', available)).toBe('gzip');
+    });
+});
+
+describe('parseRange', () => {
+    test('a single range', () => {
+        expect(parseRange('bytes=0-99', 1000)).toEqual([{ start: 0, end: 99 }]);
+        expect(parseRange('bytes=900-2000', 1000)).toEqual([{ start: 900, end: 999 }]);
+    });
+
+    test('suffix ranges', () => {
+        expect(parseRange('bytes=-100', 1000)).toEqual([{ start: 900, end: 999 }]);
+        expect(parseRange('bytes=-2000', 1000)).toEqual([{ start: 0, end: 999 }]);
+        expect(parseRange('bytes=-0', 1000)).toBeNull();
+    });
+
+    test('open-ended ranges', () => {
+        expect(parseRange('bytes=100-', 1000)).toEqual([{ start: 100, end: 999 }]);
+        expect(parseRange('bytes=999-', 1000)).toEqual([{ start: 999, end: 999 }]);
+    });
+
+    test('multiple ranges', () => {
+        expect(parseRange('bytes=0-9, 20-29', 1000)).toEqual([
+            { start: 0, end: 9 },
+            { start: 20, end: 29 }
+        ]);
+        // sorted, and overlapping or adjacent ranges are merged
+        expect(parseRange('bytes=20-29,0-9', 1000)).toEqual([
+            { start: 0, end: 9 },
+            { start: 20, end: 29 }
+        ]);
+        expect(parseRange('bytes=0-9,5-19,20-29', 1000)).toEqual([{ start: 0, end: 29 }]);
+        expect(parseRange('bytes=0-9,-10', 1000)).toEqual([
+            { start: 0, end: 9 },
+            { start: 990, end: 999 }
+        ]);
+        // unsatisfiable ranges are left out
+        expect(parseRange('bytes=0-9,2000-', 1000)).toEqual([{ start: 0, end: 9 }]);
+    });
+
+    test('unsatisfiable ranges', () => {
+        expect(parseRange('bytes=1000-', 1000)).toBeNull();
+        expect(parseRange('bytes=1000-1999', 1000)).toBeNull();
+        expect(parseRange('bytes=1000-,2000-', 1000)).toBeNull();
+        expect(parseRange('bytes=-10', 0)).toBeNull();
+    });
+
+    test('ignored headers', () => {
+        expect(parseRange('items=0-9', 1000)).toBeUndefined();
+        expect(parseRange('bytes=-', 1000)).toBeUndefined();
+        expect(parseRange('bytes=9-0', 1000)).toBeUndefined();
+        expect(parseRange('bytes=a-b', 1000)).toBeUndefined();
+    });
+});
+
+describe('isRangeFresh', () => {
+    test('without If-Range', () => {
+        expect(isRangeFresh(request({}), validators)).toBe(true);
+    });
+
+    test('an etag', () => {
+        expect(isRangeFresh(request({ 'if-range': '"abc"' }), validators)).toBe(true);
+        expect(isRangeFresh(request({ 'if-range': '"x"' }), validators)).toBe(false);
+        // the comparison is strong
+        expect(isRangeFresh(request({ 'if-range': 'W/"abc"' }), validators)).toBe(false);
+        expect(isRangeFresh(request({ 'if-range': '"abc"' }), { ...validators, etag: 'W/"abc"' })).toBe(false);
+    });
+
+    test('a date', () => {
+        expect(isRangeFresh(request({ 'if-range': at }), validators)).toBe(true);
+        expect(isRangeFresh(request({ 'if-range': before }), validators)).toBe(false);
+        expect(isRangeFresh(request({ 'if-range': after }), validators)).toBe(false);
+        expect(isRangeFresh(request({ 'if-range': 'yesterday' }), validators)).toBe(false);
+    });
+});
@@ -0,0 +1,141 @@
+export type Validators = {
+    etag: string;
+
+    /**
+     * Last modified time in milliseconds, with second precision.
+     */
+    lastModified: number;
+};
+
+/**
+ * Inclusive byte range.
+ */
+export type ByteRange = {
+    start: number;
+    end: number;
+};
+
+function parseETags(header: string) {
+    if (header.trim() === '*') return '*' as const;
+    return header.match(/(?:W\/)?"[^"]*"/g) ?? [];
+}
+
+function opaque(etag: string) {
+    return etag.startsWith('W/') ? etag.substring(2) : etag;
+}
+
+function strongMatch(a: string, b: string) {
+    return !a.startsWith('W/') && !b.startsWith('W/') && a === b;
+}
+
+function weakMatch(a: string, b: string) {
+    return opaque(a) === opaque(b);
+}
+
+function parseDate(header: string | null) {
+    if (header === null) return undefined;
+    const time = Date.parse(header);
+    return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Evaluate the preconditions of a request in the order of RFC 9110 section 13.2.2,
+ * returns the status to respond with when a precondition fails.
+ */
+export function evaluatePreconditions(request: Request, validators: Validators): 304 | 412 | undefined {
+    const safe = request.method === 'GET' || request.method === 'HEAD';
+    const ifMatch = request.headers.get('if-match');
+    if (ifMatch !== null) {
+        const tags = parseETags(ifMatch);
+        if (tags !== '*' && !tags.some((tag) => strongMatch(tag, validators.etag))) return 412;
+    } else {
+        const ifUnmodifiedSince = parseDate(request.headers.get('if-unmodified-since'));
+        if (ifUnmodifiedSince !== undefined && validators.lastModified > ifUnmodifiedSince) return 412;
+    }
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch !== null) {
+        const tags = parseETags(ifNoneMatch);
+        if (tags === '*' || tags.some((tag) => weakMatch(tag, validators.etag))) return safe ? 304 : 412;
+    } else if (safe) {
+        const ifModifiedSince = parseDate(request.headers.get('if-modified-since'));
+        if (ifModifiedSince !== undefined && validators.lastModified <= ifModifiedSince) return 304;
+    }
+    return undefined;
+}
+
+/**
+ * Check `If-Range`, a range request is only honored if the representation is unchanged.
+ */
+export function isRangeFresh(request: Request, validators: Validators) {
+    const ifRange = request.headers.get('if-range');
+    if (ifRange === null) return true;
+    if (ifRange.trim().startsWith('"') || ifRange.trim().startsWith('W/')) {
+        return strongMatch(ifRange.trim(), validators.etag);
+    }
+    return parseDate(ifRange) === validators.lastModified;
+}
+
+/**
+ * Select the content encoding from the available ones (in the order of preference)
+ * with the weights of `Accept-Encoding`, falls back to identity.
+ */
+export function negotiateEncoding(header: string | null, available: string[]): string {
+    if (header === null) return 'identity';
+    const weights = new Map<string, number>();
+    for (const part of header.split(',')) {
+        const [coding, ...params] = part.trim().split(';');
+        if (!coding) continue;
+        let q = 1;
+        for (const param of params) {
+            const [key, value] = param.trim().split('=');
+            if (key.toLowerCase() === 'q') q = Number(value);
+        }
+        weights.set(coding.toLowerCase(), Number.isNaN(q) ? 0 : q);
+    }
+    // identity is acceptable without being listed, but then only as the fallback
+    const weight = (coding: string) => weights.get(coding) ?? weights.get('*') ?? 0;
+    let selected = 'identity';
+    let selectedWeight = 0;
+    for (const coding of available) {
+        const q = weight(coding);
+        if (q > selectedWeight) {
+            selected = coding;
+            selectedWeight = q;
+        }
+    }
+    // identity wins only when it is strictly preferred over the best coding
+    return selectedWeight > 0 && selectedWeight >= weight('identity') ? selected : 'identity';
+}
+
+/**
+ * Parse a `Range` header against the size of the representation, returns undefined
+ * if the header should be ignored or null if no range is satisfiable.
+ */
+export function parseRange(header: string, size: number): ByteRange[] | null | undefined {
+    const match = /^\s*bytes\s*=(.*)$/i.exec(header);
+    if (!match) return undefined;
+    const ranges: ByteRange[] = [];
+    for (const spec of match[1].split(',')) {
+        const part = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(spec);
+        if (!part || (!part[1] && !part[2])) return undefined;
+        if (!part[1]) {
+            const suffix = +part[2];
+            if (suffix === 0 || size === 0) continue;
+            ranges.push({ start: Math.max(0, size - suffix), end: size - 1 });
+            continue;
+        }
+        const start = +part[1];
+        if (part[2] && +part[2] < start) return undefined;
+        if (start >= size) continue;
+        ranges.push({ start, end: part[2] ? Math.min(+part[2], size - 1) : size - 1 });
+    }
+    if (!ranges.length) return null;
+    ranges.sort((a, b) => a.start - b.start);
+    const merged: ByteRange[] = [ranges[0]];
+    for (let i = 1; i < ranges.length; i++) {
+        const last = merged[merged.length - 1];
+        if (ranges[i].start <= last.end + 1) last.end = Math.max(last.end, ranges[i].end);
+        else merged.push(ranges[i]);
+    }
+    return merged;
+}
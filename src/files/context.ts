@@ -0,0 +1,58 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { SYM_VERCELCONTEXT } from './symbols';
+import { settleWithin, waitUntilTimeout } from './limits';
+import type { Source } from './log';
+
+export type RequestContext = {
+    waitUntil(promise: Promise<any>): void;
+
+    /**
+     * How the response was resolved, for the access log.
+     */
+    source?: Source;
+
+    /**
+     * The response was served from the response cache, set by `cached`.
+     */
+    cache?: 'HIT' | 'STALE';
+};
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Expose the request context the same way vercel does, so `waitUntil` from
+ * `@vercel/functions` resolves to the request currently being handled.
+ */
+export function installRequestContext() {
+    (globalThis as any)[SYM_VERCELCONTEXT] = {
+        get: () => storage.getStore()
+    };
+}
+
+/**
+ * Create a context which tracks the `waitUntil` promises of a single request.
+ */
+export function createRequestContext() {
+    const waits = new Set<Promise<any>>();
+    return {
+        source: undefined as Source | undefined,
+        cache: undefined as RequestContext['cache'],
+        waitUntil(promise: Promise<any>) {
+            waits.add(promise.catch(console.error));
+        },
+        settled() {
+            return settleWithin(Promise.allSettled(waits), waitUntilTimeout);
+        }
+    };
+}
+
+/**
+ * The context of the request currently being handled, if any.
+ */
+export function currentRequestContext() {
+    return storage.getStore();
+}
+
+export function withRequestContext<T>(context: RequestContext, fn: () => T): T {
+    return storage.run(context, fn);
+}
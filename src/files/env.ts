@@ -0,0 +1,46 @@
+import { runtime } from './runtime';
+
+const expected = new Set([
+    'ORIGIN',
+    'XFF_DEPTH',
+    'ADDRESS_HEADER',
+    'PROTOCOL_HEADER',
+    'HOST_HEADER',
+    'PORT_HEADER',
+    'IGNORE_FILES',
+    'BODY_SIZE_LIMIT',
+    'HEADER_TIMEOUT',
+    'BODY_TIMEOUT',
+    'RENDER_TIMEOUT',
+    'WAIT_UNTIL_TIMEOUT',
+    'CACHE_DIR',
+    'CACHE_VARY',
+    'METHOD_OVERRIDE',
+    'ACCESS_LOG',
+    'ACCESS_LOG_FORMAT',
+    'LOG_LEVEL',
+    'INVOKE_SECRET'
+]);
+
+if (ENV_PREFIX) {
+    for (const name in runtime.env) {
+        if (name.startsWith(ENV_PREFIX)) {
+            const unprefixed = name.slice(ENV_PREFIX.length);
+            if (!expected.has(unprefixed)) {
+                throw new Error(
+                    `You should change envPrefix (${ENV_PREFIX}) to avoid conflicts with existing environment variables — unexpectedly saw ${name}`
+                );
+            }
+        }
+    }
+}
+
+/**
+ * Read an environment variable of the adapter, prefixed with `envPrefix`.
+ */
+export function env(name: string, fallback: string): string;
+export function env(name: string, fallback?: string): string | undefined;
+export function env(name: string, fallback?: string) {
+    const prefixed = ENV_PREFIX + name;
+    return prefixed in runtime.env ? runtime.env[prefixed] : fallback;
+}
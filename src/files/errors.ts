@@ -0,0 +1,30 @@
+export const EXIT_OK = 0;
+/**
+ * `invoke` got a response with a 4xx or 5xx status.
+ */
+export const EXIT_HTTP_ERROR = 1;
+export const EXIT_PROTOCOL_ERROR = 2;
+export const EXIT_APP_ERROR = 3;
+export const EXIT_TIMEOUT = 4;
+
+/**
+ * Codes of the `error` message.
+ */
+export type ErrorCode = 'protocol_error' | 'app_error' | 'timeout';
+
+export const exitCodes: Record<ErrorCode, number> = {
+    protocol_error: EXIT_PROTOCOL_ERROR,
+    app_error: EXIT_APP_ERROR,
+    timeout: EXIT_TIMEOUT
+};
+
+/**
+ * The bridge sent something which does not follow the protocol.
+ */
+export class ProtocolError extends Error {
+    name = 'ProtocolError';
+}
+
+export function errorMessage(err: unknown) {
+    return err instanceof Error ? err.message : `${err}`;
+}
@@ -0,0 +1,255 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { connect, type Server as NetServer, type Socket } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SYM_SERVER } from './symbols';
+import { fastcgi } from './fastcgi';
+
+const BEGIN_REQUEST = 1;
+const ABORT_REQUEST = 2;
+const END_REQUEST = 3;
+const PARAMS = 4;
+const STDIN = 5;
+const STDOUT = 6;
+
+type Received = { type: number; id: number; content: Buffer };
+
+function record(type: number, id: number, content: Buffer = Buffer.alloc(0)) {
+    const header = Buffer.alloc(8);
+    header.writeUInt8(1, 0);
+    header.writeUInt8(type, 1);
+    header.writeUInt16BE(id, 2);
+    header.writeUInt16BE(content.length, 4);
+    return Buffer.concat([header, content]);
+}
+
+function length(n: number) {
+    if (n < 0x80) return Buffer.from([n]);
+    const buff = Buffer.alloc(4);
+    buff.writeUInt32BE((n | 0x80000000) >>> 0, 0);
+    return buff;
+}
+
+function params(values: Record<string, string>) {
+    return Buffer.concat(
+        Object.entries(values).flatMap(([name, value]) => [
+            length(Buffer.byteLength(name)),
+            length(Buffer.byteLength(value)),
+            Buffer.from(name),
+            Buffer.from(value)
+        ])
+    );
+}
+
+function begin(id: number, keepConn = false) {
+    return record(BEGIN_REQUEST, id, Buffer.from([0, 1, keepConn ? 1 : 0, 0, 0, 0, 0, 0]));
+}
+
+/**
+ * The records of a request, with its body in STDIN records of at most `chunk` bytes.
+ */
+function request(id: number, env: Record<string, string>, body?: Buffer, keepConn = false, chunk = 0xffff) {
+    const records = [
+        begin(id, keepConn),
+        record(PARAMS, id, params({ SERVER_NAME: 'localhost', SERVER_PORT: '80', REMOTE_ADDR: '127.0.0.1', ...env })),
+        record(PARAMS, id)
+    ];
+    for (let offset = 0; body && offset < body.length; offset += chunk) {
+        records.push(record(STDIN, id, body.subarray(offset, offset + chunk)));
+    }
+    records.push(record(STDIN, id));
+    return Buffer.concat(records);
+}
+
+function parse(data: Buffer) {
+    const records: Received[] = [];
+    for (let offset = 0; offset + 8 <= data.length; ) {
+        const contentLength = data.readUInt16BE(offset + 4);
+        records.push({
+            type: data.readUInt8(offset + 1),
+            id: data.readUInt16BE(offset + 2),
+            content: data.subarray(offset + 8, offset + 8 + contentLength)
+        });
+        offset += 8 + contentLength + data.readUInt8(offset + 6);
+    }
+    return records;
+}
+
+/**
+ * Write the data and collect the records until the server closes the connection, or
+ * until `until` is satisfied.
+ */
+function exchange(socket: Socket, data: Buffer, until?: (records: Received[]) => boolean) {
+    return new Promise<Received[]>((resolve, reject) => {
+        let received = Buffer.alloc(0);
+        const onData = (chunk: Buffer) => {
+            received = Buffer.concat([received, chunk]);
+            if (until?.(parse(received))) {
+                socket.off('data', onData);
+                resolve(parse(received));
+            }
+        };
+        socket.on('data', onData);
+        socket.on('close', () => resolve(parse(received)));
+        socket.on('error', reject);
+        socket.write(data);
+    });
+}
+
+function stdout(records: Received[], id = 1) {
+    return Buffer.concat(records.filter((r) => r.type === STDOUT && r.id === id).map((r) => r.content)).toString();
+}
+
+function ended(records: Received[], id = 1) {
+    return records.some((r) => r.type === END_REQUEST && r.id === id);
+}
+
+const path = join(tmpdir(), `adapter-cli-fastcgi-${process.pid}.sock`);
+let server: NetServer;
+let rendered = 0;
+
+function open() {
+    return new Promise<Socket>((resolve) => {
+        const socket: Socket = connect(path, () => resolve(socket));
+    });
+}
+
+beforeAll(async () => {
+    (globalThis as any)[SYM_SERVER] = {
+        async init() {},
+        async respond(req: Request) {
+            rendered++;
+            const url = new URL(req.url);
+            if (url.pathname === '/wait') await new Promise(() => {});
+            return new Response(`${req.method} ${url.pathname} ${await req.text()}`, {
+                headers: { 'x-long': req.headers.get('x-long') ?? '' }
+            });
+        }
+    };
+    server = fastcgi({ socket: path, static: false });
+    await new Promise((resolve) => server.once('listening', resolve));
+});
+
+afterAll(() => {
+    server.close();
+});
+
+describe('fastcgi', () => {
+    test('a request with params and a body', async () => {
+        const body = Buffer.from('a'.repeat(100000));
+        const records = await exchange(
+            await open(),
+            request(1, { REQUEST_METHOD: 'POST', REQUEST_URI: '/echo' }, body, false, 1000)
+        );
+        const out = stdout(records);
+        expect(out).toStartWith('Status: 200 OK\r\n');
+        expect(out).toEndWith(`\r\n\r\nPOST /echo ${body}`);
+        expect(ended(records)).toBe(true);
+    });
+
+    test('name-value pairs with long lengths', async () => {
+        const long = 'x'.repeat(300);
+        const records = await exchange(
+            await open(),
+            request(1, { REQUEST_METHOD: 'GET', REQUEST_URI: `/${'p'.repeat(200)}`, HTTP_X_LONG: long })
+        );
+        const out = stdout(records);
+        expect(out).toContain(`x-long: ${long}\r\n`);
+        expect(out).toEndWith(`GET /${'p'.repeat(200)} `);
+    });
+
+    test('params split over records', async () => {
+        const env = params({
+            SERVER_NAME: 'localhost',
+            REMOTE_ADDR: '127.0.0.1',
+            REQUEST_METHOD: 'GET',
+            REQUEST_URI: '/split'
+        });
+        const records = await exchange(
+            await open(),
+            Buffer.concat([
+                begin(1),
+                record(PARAMS, 1, env.subarray(0, 7)),
+                record(PARAMS, 1, env.subarray(7)),
+                record(PARAMS, 1),
+                record(STDIN, 1)
+            ])
+        );
+        expect(stdout(records)).toEndWith('GET /split ');
+    });
+
+    test('keep-conn serves requests one after the other on the connection', async () => {
+        const socket = await open();
+        for (const id of [1, 2]) {
+            const records = await exchange(
+                socket,
+                request(id, { REQUEST_METHOD: 'GET', REQUEST_URI: `/keep/${id}` }, undefined, true),
+                (records) => ended(records, id)
+            );
+            expect(stdout(records, id)).toEndWith(`GET /keep/${id} `);
+        }
+        expect(socket.destroyed).toBe(false);
+        socket.destroy();
+    });
+
+    test('abort ends the request', async () => {
+        const records = await exchange(
+            await open(),
+            Buffer.concat([
+                begin(1),
+                record(PARAMS, 1, params({ REQUEST_METHOD: 'GET', REQUEST_URI: '/wait', REMOTE_ADDR: '127.0.0.1' })),
+                record(PARAMS, 1),
+                record(STDIN, 1),
+                record(ABORT_REQUEST, 1)
+            ])
+        );
+        expect(ended(records)).toBe(true);
+        expect(stdout(records)).toBe('');
+    });
+
+    test('a body over BODY_SIZE_LIMIT is answered with 413', async () => {
+        const body = Buffer.alloc(600 * 1024, 'a');
+        const records = await exchange(
+            await open(),
+            request(1, { REQUEST_METHOD: 'POST', REQUEST_URI: '/echo' }, body, false, 0xffff)
+        );
+        expect(stdout(records)).toStartWith('Status: 413 Payload Too Large\r\n');
+        expect(ended(records)).toBe(true);
+    });
+
+    test('a content-length over BODY_SIZE_LIMIT is answered with 413', async () => {
+        const records = await exchange(
+            await open(),
+            request(1, { REQUEST_METHOD: 'POST', REQUEST_URI: '/echo', CONTENT_LENGTH: `${600 * 1024}` })
+        );
+        expect(stdout(records)).toStartWith('Status: 413 Payload Too Large\r\n');
+    });
+
+    test('params after the terminator do not dispatch the request again', async () => {
+        const before = rendered;
+        const records = await exchange(
+            await open(),
+            Buffer.concat([
+                begin(1),
+                record(PARAMS, 1, params({ REQUEST_METHOD: 'GET', REQUEST_URI: '/once', REMOTE_ADDR: '127.0.0.1' })),
+                record(PARAMS, 1),
+                record(PARAMS, 1),
+                record(STDIN, 1)
+            ])
+        );
+        expect(stdout(records)).toEndWith('GET /once ');
+        expect(rendered - before).toBe(1);
+    });
+
+    test('a malformed record only closes its connection', async () => {
+        const records = await exchange(await open(), record(BEGIN_REQUEST, 1, Buffer.from([0])));
+        expect(records).toEqual([]);
+        const truncated = await exchange(
+            await open(),
+            Buffer.concat([begin(1), record(PARAMS, 1, Buffer.from([5, 100, 65])), record(PARAMS, 1)])
+        );
+        expect(ended(truncated)).toBe(true);
+        const after = await exchange(await open(), request(1, { REQUEST_METHOD: 'GET', REQUEST_URI: '/after' }));
+        expect(stdout(after)).toEndWith('GET /after ');
+    });
+});
@@ -0,0 +1,415 @@
+import { createServer, type Socket } from 'net';
+import { existsSync, unlinkSync } from 'fs';
+import { PassThrough, Readable, Writable } from 'stream';
+import { createRequestContext, installRequestContext, withRequestContext } from './context';
+import { createRequest, hasBody, isMethod, redirectConsole, serve, type HandleOptions } from './handle';
+import { cgiRequestHeaders, cgiRequestURL, cgiResponseHead, type CGIEnv } from './cgi';
+import { bodySizeLimit, errorResponse, exceedsBodySizeLimit } from './limits';
+import { accessLog, requestTimer, type RequestTimer } from './log';
+import { exitProcess } from './app';
+import { ProtocolError } from './errors';
+
+const FCGI_LISTENSOCK_FILENO = 0;
+const FCGI_HEADER_LEN = 8;
+const FCGI_VERSION_1 = 1;
+const FCGI_MAX_CONTENT = 0xffff;
+
+const FCGI_BEGIN_REQUEST = 1;
+const FCGI_ABORT_REQUEST = 2;
+const FCGI_END_REQUEST = 3;
+const FCGI_PARAMS = 4;
+const FCGI_STDIN = 5;
+const FCGI_STDOUT = 6;
+const FCGI_GET_VALUES = 9;
+const FCGI_GET_VALUES_RESULT = 10;
+const FCGI_UNKNOWN_TYPE = 11;
+
+const FCGI_KEEP_CONN = 1;
+const FCGI_RESPONDER = 1;
+
+const FCGI_REQUEST_COMPLETE = 0;
+const FCGI_UNKNOWN_ROLE = 3;
+
+export type FastCGIOptions = {
+    static: boolean;
+
+    /**
+     * Unix socket to listen on, listen on the inherited `FCGI_LISTENSOCK_FILENO` when omitted.
+     */
+    socket?: string;
+};
+
+type FastCGIRecord = {
+    type: number;
+    id: number;
+    content: Buffer;
+};
+
+type FastCGIRequest = {
+    keepConn: boolean;
+    params: Buffer[];
+
+    /**
+     * The empty PARAMS record was received and the request dispatched.
+     */
+    paramsEnded: boolean;
+    body: PassThrough;
+    abort: AbortController;
+    received: number;
+
+    /**
+     * The body exceeded `BODY_SIZE_LIMIT`.
+     */
+    tooLarge: boolean;
+    ended: boolean;
+};
+
+/**
+ * Split the stream into records, the chunks are kept as received and only a whole record
+ * is copied out of them.
+ */
+class RecordReader extends Writable {
+    #chunks: Buffer[] = [];
+    #offset = 0;
+    #length = 0;
+
+    /**
+     * The next `size` buffered bytes, consumed when `consume` is set.
+     */
+    #read(size: number, consume: boolean) {
+        const first = this.#chunks[0];
+        let data: Buffer;
+        if (first.length - this.#offset >= size) {
+            data = first.subarray(this.#offset, this.#offset + size);
+        } else {
+            const parts: Buffer[] = [];
+            let offset = this.#offset;
+            for (let i = 0, left = size; left > 0; i++, offset = 0) {
+                const part = this.#chunks[i].subarray(offset, offset + left);
+                parts.push(part);
+                left -= part.length;
+            }
+            data = Buffer.concat(parts, size);
+        }
+        if (consume) {
+            this.#length -= size;
+            this.#offset += size;
+            while (this.#chunks.length && this.#offset >= this.#chunks[0].length) {
+                this.#offset -= this.#chunks.shift()!.length;
+            }
+        }
+        return data;
+    }
+
+    _write(chunk: any, _: BufferEncoding, callback: (error?: Error | null | undefined) => void): void {
+        const buff = Buffer.from(chunk);
+        this.#chunks.push(buff);
+        this.#length += buff.length;
+        while (this.#length >= FCGI_HEADER_LEN) {
+            const header = this.#read(FCGI_HEADER_LEN, false);
+            const length = header.readUInt16BE(4);
+            const end = FCGI_HEADER_LEN + length + header.readUInt8(6);
+            if (this.#length < end) break;
+            if (header.readUInt8(0) !== FCGI_VERSION_1) {
+                return callback(new Error(`Unsupported FastCGI version: ${header.readUInt8(0)}`));
+            }
+            const record: FastCGIRecord = {
+                type: header.readUInt8(1),
+                id: header.readUInt16BE(2),
+                content: this.#read(end, true).subarray(FCGI_HEADER_LEN, FCGI_HEADER_LEN + length)
+            };
+            try {
+                this.emit('record', record);
+            } catch (err) {
+                // a malformed record only ends its connection
+                return callback(err as Error);
+            }
+        }
+        callback();
+    }
+}
+
+/**
+ * Serve requests with the FastCGI responder role, requests on the same connection
+ * are multiplexed by their request id. Returns the listening server.
+ */
+export function fastcgi(options: FastCGIOptions) {
+    redirectConsole();
+    installRequestContext();
+    const inflight = new Set<Promise<void>>();
+    const server = createServer((socket) => connection(socket, options, inflight));
+    server.on('error', (err) => {
+        console.error(err);
+        exitProcess(1);
+    });
+    if (options.socket) {
+        if (existsSync(options.socket)) unlinkSync(options.socket);
+        server.listen(options.socket);
+    } else {
+        server.listen({ fd: FCGI_LISTENSOCK_FILENO });
+    }
+    const shutdown = () => {
+        server.close();
+        Promise.allSettled(inflight).finally(() => exitProcess(0));
+    };
+    process.on('SIGTERM', shutdown);
+    process.on('SIGINT', shutdown);
+    return server;
+}
+
+function connection(socket: Socket, options: FastCGIOptions, inflight: Set<Promise<void>>) {
+    const requests = new Map<number, FastCGIRequest>();
+    const reader = new RecordReader();
+    socket.on('error', (err) => {
+        console.error(err);
+        abortAll();
+    });
+    socket.on('close', abortAll);
+    reader.on('error', (err) => {
+        console.error(err);
+        socket.destroy();
+    });
+    reader.on('record', (record: FastCGIRecord) => {
+        switch (record.type) {
+            case FCGI_GET_VALUES: {
+                const names = Object.keys(decodeParams(record.content));
+                const values: Record<string, string> = {
+                    FCGI_MAX_CONNS: '1000',
+                    FCGI_MAX_REQS: '1000',
+                    FCGI_MPXS_CONNS: '1'
+                };
+                const result: Record<string, string> = {};
+                for (const name of names) {
+                    if (name in values) result[name] = values[name];
+                }
+                write(FCGI_GET_VALUES_RESULT, 0, encodeParams(result));
+                break;
+            }
+            case FCGI_BEGIN_REQUEST: {
+                if (record.content.length < 8) {
+                    throw new ProtocolError(`Malformed FastCGI BEGIN_REQUEST of request ${record.id}`);
+                }
+                const role = record.content.readUInt16BE(0);
+                if (role !== FCGI_RESPONDER) {
+                    write(FCGI_END_REQUEST, record.id, endRequestBody(0, FCGI_UNKNOWN_ROLE));
+                    break;
+                }
+                requests.set(record.id, {
+                    keepConn: (record.content.readUInt8(2) & FCGI_KEEP_CONN) !== 0,
+                    params: [],
+                    paramsEnded: false,
+                    body: new PassThrough(),
+                    abort: new AbortController(),
+                    received: 0,
+                    tooLarge: false,
+                    ended: false
+                });
+                break;
+            }
+            case FCGI_PARAMS: {
+                const req = requests.get(record.id);
+                // the request is dispatched once, params after the terminator are ignored
+                if (!req || req.paramsEnded) break;
+                if (record.content.length) {
+                    req.params.push(Buffer.from(record.content));
+                    break;
+                }
+                req.paramsEnded = true;
+                let params: CGIEnv;
+                try {
+                    params = decodeParams(Buffer.concat(req.params));
+                } catch (err) {
+                    console.error(err);
+                    req.abort.abort();
+                    end(record.id, req).catch(console.error);
+                    break;
+                }
+                const done = respond(record.id, req, params);
+                inflight.add(done);
+                done.finally(() => inflight.delete(done));
+                break;
+            }
+            case FCGI_STDIN: {
+                const req = requests.get(record.id);
+                if (!req || req.abort.signal.aborted) break;
+                req.received += record.content.length;
+                if (bodySizeLimit > 0 && req.received > bodySizeLimit) {
+                    req.tooLarge = true;
+                    req.body.destroy(new Error('Request body exceeds BODY_SIZE_LIMIT.'));
+                    req.abort.abort();
+                    break;
+                }
+                if (record.content.length) req.body.write(Buffer.from(record.content));
+                else req.body.end();
+                break;
+            }
+            case FCGI_ABORT_REQUEST: {
+                const req = requests.get(record.id);
+                if (!req) break;
+                req.body.end();
+                req.abort.abort();
+                end(record.id, req).catch(console.error);
+                break;
+            }
+            default: {
+                if (record.id !== 0) break;
+                const body = Buffer.alloc(8);
+                body.writeUInt8(record.type, 0);
+                write(FCGI_UNKNOWN_TYPE, 0, body);
+            }
+        }
+    });
+    socket.pipe(reader);
+
+    function abortAll() {
+        for (const req of requests.values()) {
+            req.body.end();
+            req.abort.abort();
+        }
+        requests.clear();
+    }
+
+    function write(type: number, id: number, content: Uint8Array = Buffer.alloc(0)) {
+        return new Promise<void>((res, rej) => {
+            if (socket.destroyed) return res();
+            const padding = (8 - (content.length % 8)) % 8;
+            const header = Buffer.alloc(FCGI_HEADER_LEN);
+            header.writeUInt8(FCGI_VERSION_1, 0);
+            header.writeUInt8(type, 1);
+            header.writeUInt16BE(id, 2);
+            header.writeUInt16BE(content.length, 4);
+            header.writeUInt8(padding, 6);
+            socket.write(Buffer.concat([header, content, Buffer.alloc(padding)]), (err) => {
+                if (err) rej(err);
+                else res();
+            });
+        });
+    }
+
+    async function writeStdout(id: number, req: FastCGIRequest, data: Uint8Array) {
+        for (let offset = 0; offset < data.length; offset += FCGI_MAX_CONTENT) {
+            if (req.ended) return;
+            await write(FCGI_STDOUT, id, data.subarray(offset, offset + FCGI_MAX_CONTENT));
+        }
+    }
+
+    async function end(id: number, req: FastCGIRequest) {
+        if (req.ended) return;
+        req.ended = true;
+        requests.delete(id);
+        await write(FCGI_STDOUT, id);
+        await write(FCGI_END_REQUEST, id, endRequestBody(0, FCGI_REQUEST_COMPLETE));
+        if (!req.keepConn) socket.end();
+    }
+
+    async function respond(id: number, req: FastCGIRequest, env: CGIEnv) {
+        const context = createRequestContext();
+        let timer: RequestTimer | undefined;
+        try {
+            const method = (env.REQUEST_METHOD ?? 'GET').toUpperCase();
+            const url = cgiRequestURL(env);
+            let res: Response;
+            const headers = cgiRequestHeaders(env);
+            if (url) timer = requestTimer(method, url, headers, env.REMOTE_ADDR);
+            if (!isMethod(method) || !url) {
+                req.body.resume();
+                res = errorResponse(400);
+            } else if (exceedsBodySizeLimit(headers)) {
+                req.body.resume();
+                res = errorResponse(413);
+            } else {
+                if (!hasBody(method)) req.body.resume();
+                const handleOptions: HandleOptions = {
+                    url,
+                    method,
+                    clientIP: env.REMOTE_ADDR,
+                    static: options.static
+                };
+                const request = createRequest(url, {
+                    method,
+                    headers,
+                    body: hasBody(method) ? (Readable.toWeb(req.body) as any) : null,
+                    signal: req.abort.signal
+                });
+                timer?.dispatch();
+                res = await withRequestContext(context, () => serve(request, handleOptions)).catch((err) => {
+                    console.error(err);
+                    return errorResponse(500);
+                });
+                // the app failed to read the body cut off at the limit
+                if (req.tooLarge) res = errorResponse(413);
+            }
+            timer?.resolve(res.status);
+            await writeStdout(id, req, Buffer.from(cgiResponseHead(res)));
+            if (res.body && method !== 'HEAD') {
+                const reader = res.body.getReader();
+                while (!req.ended) {
+                    const read = await reader.read();
+                    if (read.value) {
+                        timer?.send(read.value.byteLength);
+                        await writeStdout(id, req, read.value);
+                    }
+                    if (read.done) break;
+                }
+                if (req.ended) await reader.cancel().catch(() => {});
+            }
+            timer?.stream();
+            await end(id, req);
+        } catch (err) {
+            console.error(err);
+            await end(id, req).catch(console.error);
+        }
+        await context.settled();
+        if (timer) await accessLog(timer.entry(context.source)).catch(console.error);
+    }
+}
+
+function endRequestBody(appStatus: number, protocolStatus: number) {
+    const body = Buffer.alloc(8);
+    body.writeUInt32BE(appStatus, 0);
+    body.writeUInt8(protocolStatus, 4);
+    return body;
+}
+
+function readLength(buff: Buffer, offset: number): [number, number] {
+    if (offset >= buff.length) throw new ProtocolError('Truncated FastCGI name-value pair');
+    if (buff[offset] >> 7 === 0) return [buff[offset], offset + 1];
+    if (offset + 4 > buff.length) throw new ProtocolError('Truncated FastCGI name-value pair');
+    return [buff.readUInt32BE(offset) & 0x7fffffff, offset + 4];
+}
+
+/**
+ * Decode name-value pairs, throws a `ProtocolError` when they are truncated.
+ */
+function decodeParams(buff: Buffer) {
+    const params: CGIEnv = {};
+    let offset = 0;
+    while (offset < buff.length) {
+        const [nameLength, afterName] = readLength(buff, offset);
+        const [valueLength, afterValue] = readLength(buff, afterName);
+        if (afterValue + nameLength + valueLength > buff.length) {
+            throw new ProtocolError('Truncated FastCGI name-value pair');
+        }
+        const name = buff.toString('latin1', afterValue, afterValue + nameLength);
+        offset = afterValue + nameLength + valueLength;
+        params[name] = buff.toString('latin1', afterValue + nameLength, offset);
+    }
+    return params;
+}
+
+function encodeLength(length: number) {
+    if (length < 0x80) return Buffer.from([length]);
+    const buff = Buffer.alloc(4);
+    buff.writeUInt32BE((length | 0x80000000) >>> 0, 0);
+    return buff;
+}
+
+function encodeParams(params: Record<string, string>) {
+    const chunks: Buffer[] = [];
+    for (const [name, value] of Object.entries(params)) {
+        const n = Buffer.from(name, 'latin1');
+        const v = Buffer.from(value, 'latin1');
+        chunks.push(encodeLength(n.length), encodeLength(v.length), n, v);
+    }
+    return Buffer.concat(chunks);
+}
@@ -1,83 +1,305 @@
 import type { Server } from 'SERVER';
 import { PassThrough, Readable } from 'stream';
-import { SYM_BASE_PATH, SYM_SERVER, SYM_VERCELCONTEXT } from './symbols';
-import { statSync, existsSync, type Stats } from 'fs';
+import { SYM_BASE_PATH, SYM_SERVER } from './symbols';
 import { normalize } from 'path';
-import { Readline } from './readline';
-import { manifest } from 'MANIFEST';
+import { rules, staticFiles } from 'MANIFEST';
+import type { StaticFiles } from '../static';
+import { matchPattern, substitute, type HeaderRule, type RedirectRule } from '../rules';
+import { randomUUID } from 'crypto';
+import { env } from './env';
+import { runtime } from './runtime';
+import { prerenderedFiles } from './snapshot';
+import { cached } from './cache';
+import { accessLog, applyLogLevel, requestTimer, type Source } from './log';
+import { appHooks, boot, exitProcess } from './app';
+import { clientAddress, resolveURL } from './proxy';
+import { evaluatePreconditions, isRangeFresh, negotiateEncoding, parseRange } from './conditional';
+import { createRequestContext, currentRequestContext, installRequestContext, withRequestContext } from './context';
+import {
+    bodySizeLimit,
+    bodyTimeout,
+    errorResponse,
+    exceedsBodySizeLimit,
+    headerTimeout,
+    maxFrameSize,
+    renderTimeout
+} from './limits';
+import {
+    createWriter,
+    isBinaryHandshake,
+    MessageDecoder,
+    PROTOCOL_VERSION,
+    toBytes,
+    type Message,
+    type MessageParam,
+    type Protocol,
+    type ResponseWriter,
+    TOKEN,
+    validateMessage
+} from './protocol';
+import { EXIT_OK, errorMessage, exitCodes, ProtocolError, type ErrorCode } from './errors';
 
-const env = Bun.env;
+/**
+ * Methods a fetch `Request` refuses to be created with.
+ */
+const forbiddenMethods = new Set(['CONNECT', 'TRACE', 'TRACK']);
+
+/**
+ * Any token is a valid method, and is forwarded to the app as is.
+ */
+export function isMethod(method: string) {
+    return TOKEN.test(method) && !forbiddenMethods.has(method.toUpperCase());
+}
 
 export type HandleOptions = {
-    method: 'HEAD' | 'GET' | 'POST' | 'PATCH' | 'PUT' | 'OPTIONS';
+    method: string;
     url: URL;
     clientIP?: string;
     static: boolean;
 };
 
-export function handle(options: HandleOptions) {
+export type Exchange = {
+    /**
+     * Feed a command received from the bridge into this exchange, throws a
+     * `ProtocolError` if the command is not expected.
+     */
+    receive(cmd: string, params: MessageParam[]): void;
+
+    /**
+     * Abort the request, reports the error and responds with the status if the
+     * response is not started yet.
+     */
+    fail(status: number, code?: ErrorCode, reason?: unknown): void;
+
+    /**
+     * The bridge will send nothing more, fails the exchange if its request is incomplete.
+     */
+    close(): void;
+
+    /**
+     * Resolves with the exit code once the response is written and all `waitUntil`
+     * promises are settled.
+     */
+    done: Promise<number>;
+};
+
+/**
+ * GET and HEAD requests can not have a body.
+ */
+export function hasBody(method: string) {
+    return method !== 'GET' && method !== 'HEAD';
+}
+
+/**
+ * Create a request which may have a streamed body, node requires `duplex` for it.
+ */
+export function createRequest(url: string | URL, init: RequestInit) {
+    return new Request(url, { ...init, duplex: 'half' } as RequestInit);
+}
+
+export function redirectConsole() {
     globalThis.console = new console.Console(process.stderr, process.stderr);
-    const waits = new Set<Promise<any>>();
-    const wu = {
-        waitUntil(promise: Promise<any>) {
-            waits.add(promise.catch(console.error));
-        }
-    };
-    (globalThis as any)[SYM_VERCELCONTEXT] = {
-        get: () => wu
+    applyLogLevel();
+}
+
+export function handle(options: HandleOptions, protocol: Protocol = 'json') {
+    redirectConsole();
+    installRequestContext();
+    const decoder = new MessageDecoder(protocol, maxFrameSize);
+    let write = createWriter(protocol);
+    const ex = exchange(options, (data) => write(data));
+    const protocolError = (err: unknown) => {
+        process.stdin.unpipe(decoder);
+        ex.fail(400, 'protocol_error', err);
     };
+    process.stdin.pipe(decoder);
+    decoder.on('error', protocolError);
+    decoder.on('message', (message: Message) => {
+        try {
+            validateMessage(message);
+            if (isBinaryHandshake(message)) {
+                write(['protocol', 'binary', PROTOCOL_VERSION]);
+                write = createWriter('binary');
+                return;
+            }
+            const [cmd, ...params] = message;
+            ex.receive(cmd, params);
+        } catch (err) {
+            protocolError(err);
+        }
+    });
+    ex.done.then((code) => exitProcess(code));
+}
+
+export function exchange(options: HandleOptions, write: ResponseWriter): Exchange {
+    const context = createRequestContext();
     const headers = new Headers();
-    const readline = new Readline();
+    const timer = requestTimer(options.method, options.url, headers, options.clientIP);
     const abort = new AbortController();
     const pipe = new PassThrough();
-    process.stdin.pipe(readline);
+    const timers = new Set<ReturnType<typeof setTimeout>>();
     let bodyStart = false;
-    readline.on('line', (line: string) => {
-        const [cmd, ...params] = JSON.parse(line) as string[];
-        if (!bodyStart) {
-            switch (cmd) {
-                case 'header': {
-                    headers.append(params[0], params[1]);
-                    break;
-                }
-                case 'start-body': {
-                    const req = new Request(options.url, {
-                        method: options.method,
-                        headers,
-                        body: Readable.toWeb(pipe) as any,
-                        signal: abort.signal
-                    });
-                    bodyStart = true;
-                    serve(req, options)
-                        .then((res) => writeResponse(res, req.method === 'HEAD'))
-                        .catch((err) => {
-                            console.error(err);
-                        })
-                        .finally(async () => {
-                            await Promise.allSettled(waits);
-                            process.exit(0);
-                        });
-                    break;
-                }
+    let bodyEnd = false;
+    let received = 0;
+    let responded = false;
+    let finished = false;
+    let exitCode = EXIT_OK;
+    let resolveDone: (code: number) => void;
+    const done = new Promise<number>((res) => (resolveDone = res));
+
+    function timeout(ms: number, status: number) {
+        if (ms <= 0) return undefined;
+        const timer = setTimeout(() => {
+            timers.delete(timer);
+            fail(status, 'timeout', `Timed out after ${ms}ms.`);
+        }, ms);
+        timers.add(timer);
+        return timer;
+    }
+
+    function clear(timer?: ReturnType<typeof setTimeout>) {
+        if (!timer) return;
+        clearTimeout(timer);
+        timers.delete(timer);
+    }
+
+    function report(code: ErrorCode, reason: unknown) {
+        console.error(reason);
+        if (exitCode === EXIT_OK) exitCode = exitCodes[code];
+        return write(['error', code, errorMessage(reason)]);
+    }
+
+    async function respond(res: Response, ignoreBody: boolean) {
+        if (responded) {
+            res.body?.cancel().catch(() => {});
+            return;
+        }
+        responded = true;
+        let started = false;
+        const measured: ResponseWriter = (data) => {
+            if (data[0] === 'status') timer.resolve(data[1]);
+            if (data[0] === 'data') timer.send(toBytes(data[1]).byteLength);
+            return write(data);
+        };
+        try {
+            await writeResponse(res, ignoreBody, (data) => {
+                started = true;
+                return measured(data);
+            });
+        } catch (err) {
+            // an error message in place of end-body terminates the response
+            await report('app_error', err).catch(console.error);
+            if (!started) {
+                await writeResponse(errorResponse(500), ignoreBody, measured).catch(console.error);
             }
-        } else if (!abort.signal.aborted) {
-            switch (cmd) {
-                case 'data': {
-                    pipe.write(Buffer.from(params[0], 'base64'));
-                    break;
-                }
-                case 'end-body': {
-                    pipe.end();
-                    break;
+        } finally {
+            timer.stream();
+            finish();
+        }
+    }
+
+    function finish() {
+        if (finished) return;
+        finished = true;
+        timers.forEach((timer) => clearTimeout(timer));
+        timers.clear();
+        context
+            .settled()
+            .then(() => accessLog(timer.entry(context.source), write))
+            .catch(console.error)
+            .then(() => resolveDone(exitCode));
+    }
+
+    function fail(status: number, code?: ErrorCode, reason?: unknown) {
+        pipe.end();
+        abort.abort();
+        // a response in progress finishes the exchange by itself
+        if (responded || finished) return;
+        (code ? report(code, reason).catch(console.error) : Promise.resolve()).then(() =>
+            respond(errorResponse(status), options.method === 'HEAD')
+        );
+    }
+
+    const headerTimer = timeout(headerTimeout, 408);
+    let bodyTimer: ReturnType<typeof setTimeout> | undefined;
+
+    return {
+        receive(cmd, params) {
+            if (finished || abort.signal.aborted) return;
+            if (!bodyStart) {
+                switch (cmd) {
+                    case 'header': {
+                        headers.append(`${params[0]}`, `${params[1]}`);
+                        return;
+                    }
+                    case 'start-body': {
+                        bodyStart = true;
+                        clear(headerTimer);
+                        if (exceedsBodySizeLimit(headers)) {
+                            fail(413);
+                            return;
+                        }
+                        if (!hasBody(options.method)) pipe.resume();
+                        const req = createRequest(options.url, {
+                            method: options.method,
+                            headers,
+                            body: hasBody(options.method) ? (Readable.toWeb(pipe) as any) : null,
+                            signal: abort.signal
+                        });
+                        bodyTimer = timeout(bodyTimeout, 408);
+                        timer.dispatch();
+                        const renderTimer = timeout(renderTimeout, 504);
+                        withRequestContext(context, () => serve(req, options)).then(
+                            (res) => {
+                                clear(renderTimer);
+                                return respond(res, req.method === 'HEAD');
+                            },
+                            (err) => {
+                                clear(renderTimer);
+                                // the request is aborted by the bridge, not a failure of the app
+                                fail(500, abort.signal.aborted ? undefined : 'app_error', err);
+                            }
+                        );
+                        return;
+                    }
+                    case 'abort': {
+                        fail(400);
+                        return;
+                    }
                 }
-                case 'abort': {
-                    pipe.end();
-                    abort.abort();
-                    break;
+            } else {
+                switch (cmd) {
+                    case 'data': {
+                        const chunk = toBytes(params[0]);
+                        received += chunk.length;
+                        if (bodySizeLimit > 0 && received > bodySizeLimit) {
+                            fail(413);
+                            return;
+                        }
+                        pipe.write(chunk);
+                        return;
+                    }
+                    case 'end-body': {
+                        bodyEnd = true;
+                        clear(bodyTimer);
+                        pipe.end();
+                        return;
+                    }
+                    case 'abort': {
+                        pipe.end();
+                        abort.abort();
+                        return;
+                    }
                 }
             }
-        }
-    });
+            throw new ProtocolError(`Unexpected command ${cmd} ${bodyStart ? 'after' : 'before'} start-body`);
+        },
+        fail,
+        close() {
+            if (!bodyStart || (hasBody(options.method) && !bodyEnd)) fail(400);
+        },
+        done
+    };
 }
 
 async function firstResolve(resolvers: (undefined | (() => Response | undefined | Promise<Response | undefined>))[]) {
@@ -94,61 +316,242 @@ async function firstResolve(resolvers: (undefined | (() => Response | undefined
     });
 }
 
-async function serve(request: Request, options: HandleOptions): Promise<Response> {
-    return firstResolve([
+/**
+ * Resolve a request: `beforeRender`, static files, prerendered pages, the `resolvers` hook,
+ * then a redirect rule or the app, the `_headers` rules and `afterRender` last.
+ */
+export async function serve(request: Request, options: HandleOptions): Promise<Response> {
+    const url = resolveURL(options.url, request.headers);
+    if (url.href !== options.url.href) {
+        request = withURL(request, url);
+        options = { ...options, url };
+    }
+    const overridden = await overrideMethod(request);
+    if (!overridden) return errorResponse(400);
+    if (overridden !== request) {
+        request = overridden;
+        options = { ...options, method: request.method };
+    }
+    const hooks = await appHooks();
+    const before = await hooks.beforeRender?.(request);
+    if (before instanceof Request && before !== request) {
+        request = before;
+        options = { ...options, url: new URL(request.url), method: request.method };
+    }
+    let res: Response;
+    if (before instanceof Response) {
+        res = resolvedBy('hook', before);
+    } else {
+        const path = options.url.pathname;
+        const redirect = rules.redirects.find((rule: RedirectRule) => matchPattern(rule.from, path));
+        res = await firstResolve([
+            ...(redirect?.force ? [] : staticResolvers(request, options)),
+            redirect ? () => applyRedirect(redirect, request, options) : renderResolver(request, options)
+        ]);
+        res = applyHeaders(res, path);
+    }
+    return (await hooks.afterRender?.(res, request)) ?? res;
+}
+
+/**
+ * Allowlist of the methods a POST request may be overridden to, from `METHOD_OVERRIDE`.
+ */
+function methodOverrides() {
+    return new Set(
+        env('METHOD_OVERRIDE', '')
+            .split(',')
+            .map((method) => method.trim().toUpperCase())
+            .filter(Boolean)
+    );
+}
+
+/**
+ * Override the method of a POST request with `X-HTTP-Method-Override` or the `_method`
+ * field of a form, resolves undefined if the method is not allowed.
+ */
+async function overrideMethod(request: Request) {
+    const allowed = methodOverrides();
+    if (request.method !== 'POST' || !allowed.size) return request;
+    let method = request.headers.get('x-http-method-override');
+    const type = request.headers.get('content-type') ?? '';
+    if (!method && /^(application\/x-www-form-urlencoded|multipart\/form-data)\b/i.test(type)) {
+        const field = (await request.clone().formData()).get('_method');
+        if (typeof field === 'string') method = field;
+    }
+    if (!method) return request;
+    method = method.trim().toUpperCase();
+    if (!allowed.has(method) || !isMethod(method)) return undefined;
+    return createRequest(request.url, {
+        method,
+        headers: request.headers,
+        body: hasBody(method) ? request.body : null,
+        signal: request.signal
+    });
+}
+
+function withURL(request: Request, url: URL) {
+    return createRequest(url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: request.signal
+    });
+}
+
+/**
+ * Static files, prerendered pages and the resolvers of the `resolvers` hook, which take
+ * precedence over the app and redirect rules which are not forced.
+ */
+function staticResolvers(request: Request, options: HandleOptions) {
+    return [
         options.static
-            ? () => serveStatic(request, options, (globalThis as any)[SYM_BASE_PATH] + '/client', true)
+            ? () =>
+                  resolvedBy(
+                      'static',
+                      serveStatic(
+                          request,
+                          options,
+                          (globalThis as any)[SYM_BASE_PATH] + '/client',
+                          staticFiles.client,
+                          true
+                      )
+                  )
             : undefined,
-        () => serveStatic(request, options, (globalThis as any)[SYM_BASE_PATH] + '/prerendered', false),
+        () =>
+            resolvedBy(
+                'prerendered',
+                serveStatic(
+                    request,
+                    options,
+                    (globalThis as any)[SYM_BASE_PATH] + '/prerendered',
+                    prerenderedFiles(),
+                    false
+                )
+            ),
         async () => {
+            for (const resolver of (await appHooks()).resolvers ?? []) {
+                const res = await resolver(request);
+                if (res) return resolvedBy('hook', res);
+            }
+        }
+    ];
+}
+
+function renderResolver(request: Request, options: HandleOptions) {
+    return async () => {
+        const res = await cached(request, async (request) => {
+            await boot();
             const server = (globalThis as any)[SYM_SERVER] as Server;
-            await server.init({ env: Bun.env as any });
             return server.respond(request, {
                 getClientAddress() {
-                    if (options.clientIP) return options.clientIP;
-                    throw new Error('Unable to determine client IP.');
+                    return clientAddress(request.headers, options.clientIP);
                 }
             });
-        }
+        });
+        return resolvedBy(currentRequestContext()?.cache ? 'cache' : 'ssr', res);
+    };
+}
+
+/**
+ * Record how the response was resolved for the access log.
+ */
+function resolvedBy<T extends Response | undefined>(source: Source, res: T) {
+    const context = currentRequestContext();
+    if (res && context) context.source = source;
+    return res;
+}
+
+/**
+ * Redirect to the target of a `_redirects` rule, or serve the target in place of the
+ * requested path for 200 and 404.
+ */
+async function applyRedirect(rule: RedirectRule, request: Request, options: HandleOptions) {
+    const target = new URL(substitute(rule.to, matchPattern(rule.from, options.url.pathname)!), options.url);
+    if (!target.search) target.search = options.url.search;
+    if (rule.status !== 200 && rule.status !== 404) {
+        return resolvedBy(
+            'redirect',
+            new Response(null, {
+                status: rule.status,
+                headers: {
+                    location: target.origin === options.url.origin ? target.pathname + target.search : target.href
+                }
+            })
+        );
+    }
+    const rewritten = withURL(request, target);
+    const rewrittenOptions = { ...options, url: target };
+    const res = await firstResolve([
+        ...staticResolvers(rewritten, rewrittenOptions),
+        renderResolver(rewritten, rewrittenOptions)
     ]);
+    if (rule.status === 200) return res;
+    return new Response(res.body, { status: 404, headers: res.headers });
+}
+
+/**
+ * Set the headers of the `_headers` rules matching the path, values of the same
+ * header from several rules are joined.
+ */
+function applyHeaders(res: Response, path: string) {
+    const matched = rules.headers.filter((rule: HeaderRule) => matchPattern(rule.pattern, path));
+    if (!matched.length) return res;
+    const values = new Map<string, string[]>();
+    for (const rule of matched) {
+        for (const [name, value] of rule.set) {
+            values.set(name, [...(values.get(name) ?? []), value]);
+        }
+        rule.unset.forEach((name: string) => values.set(name, []));
+    }
+    // the headers of a fetched response are immutable
+    const copy = new Response(res.body, res);
+    for (const [name, list] of values) {
+        if (list.length) copy.headers.set(name, list.join(', '));
+        else copy.headers.delete(name);
+    }
+    return copy;
 }
 
+const staticMethods = 'GET, HEAD, OPTIONS';
+
 const tryFiles = ['.html', '.htm', '/index.html', '/index.htm'];
 
-function statFile(path: string): Stats | undefined {
-    if (!existsSync(path)) return undefined;
-    const stats = statSync(path);
-    if (!stats.isFile()) return undefined;
-    return stats;
-}
+const encodingExtensions = {
+    gzip: '.gz',
+    br: '.br',
+    zstd: '.zst'
+};
 
-function lookup(path: string) {
-    let stats = statFile(path);
-    if (stats) return [path, stats] as const;
+function lookup(files: StaticFiles, path: string) {
+    if (files[path]) return [path, files[path]] as const;
     for (let i = 0; i < tryFiles.length; i++) {
         const tryFile = path + tryFiles[i];
-        stats = statFile(tryFile);
-        if (stats) return [tryFile, stats] as const;
+        if (files[tryFile]) return [tryFile, files[tryFile]] as const;
     }
     return ['', null] as const;
 }
 
-function serveStatic(request: Request, options: HandleOptions, basePath: string, cache: boolean) {
-    if (!existsSync(basePath)) return undefined;
-    if (request.method !== 'GET' && request.method !== 'HEAD') {
-        return undefined;
-    }
+function serveStatic(request: Request, options: HandleOptions, basePath: string, files: StaticFiles, cache: boolean) {
     const normalized = normalize(decodeURIComponent(options.url.pathname)).replace(/^\/$/, '');
-    if (env.IGNORE_FILES) {
-        const ignores = env.IGNORE_FILES.split(',').map((s) => s.trim());
+    const ignoreFiles = env('IGNORE_FILES');
+    if (ignoreFiles) {
+        const ignores = ignoreFiles.split(',').map((s) => s.trim());
         const candidate = normalized.substring(1);
         for (let i = 0; i < ignores.length; i++) {
-            const glob = new Bun.Glob(ignores[i]);
-            if (glob.match(candidate)) return undefined;
+            if (runtime.glob(ignores[i])(candidate)) return undefined;
         }
     }
-    const [resolvedPath, stats] = lookup(basePath + normalized);
-    if (!stats) return undefined;
+    const [resolved, file] = lookup(files, normalized);
+    if (!file) return undefined;
+    if (request.method === 'OPTIONS') {
+        return new Response(null, { status: 204, headers: { allow: staticMethods } });
+    }
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+        const res = errorResponse(405);
+        res.headers.set('allow', staticMethods);
+        return res;
+    }
+    const resolvedPath = basePath + resolved;
     if (options.url.pathname !== '/' && options.url.pathname.endsWith('/')) {
         return new Response(null, {
             status: 302,
@@ -157,127 +560,115 @@ function serveStatic(request: Request, options: HandleOptions, basePath: string,
             }
         });
     }
-    const etag = `W/${stats.size}-${stats.mtimeMs}`;
-    const [rangeStart, rangeEnd] = parseRange(request.headers);
+    const encodings = Object.entries(file.encodings)
+        .sort(([, a], [, b]) => a - b)
+        .map(([encoding]) => encoding as keyof typeof encodingExtensions);
+    const encoding = negotiateEncoding(request.headers.get('accept-encoding'), encodings);
+    const [path, size, etag] =
+        encoding === 'identity'
+            ? [resolvedPath, file.size, file.etag]
+            : [
+                  resolvedPath + encodingExtensions[encoding as keyof typeof encodingExtensions],
+                  file.encodings[encoding as keyof typeof encodingExtensions]!,
+                  file.etag.replace(/"$/, `-${encoding}"`)
+              ];
+    const validators = { etag, lastModified: file.mtime };
     const headers = new Headers({
-        'content-type': Bun.file(resolvedPath).type,
-        'content-length': stats.size.toString(),
-        'last-modified': stats.mtime.toUTCString(),
+        'accept-ranges': 'bytes',
+        'last-modified': new Date(file.mtime).toUTCString(),
         etag
     });
-    if (request.headers.get('if-non-match') === etag) {
+    if (encodings.length) headers.set('vary', 'accept-encoding');
+    if (cache)
+        headers.set('cache-control', file.immutable ? 'public,max-age=604800,immutable' : 'public,max-age=14400');
+    const precondition = evaluatePreconditions(request, validators);
+    if (precondition) {
+        // 304 keeps the validators and caching headers of the 200 response
         return new Response(null, {
-            status: 304
-        });
-    }
-    if (request.headers.has('range')) {
-        if (!rangeStart) {
-            headers.set('content-range', `bytes */${stats.size}`);
-            headers.set('content-length', '0');
-            return new Response(null, {
-                status: 416,
-                headers
-            });
-        }
-        let startBytes = 0;
-        let endBytes = stats.size;
-        if (rangeStart < 0n) {
-            startBytes = stats.size + rangeStart;
-        } else {
-            startBytes = rangeStart;
-            if (rangeEnd) endBytes = rangeEnd + 1;
-        }
-        if (endBytes <= startBytes || startBytes < 0n || endBytes > stats.size) {
-            headers.set('content-range', `bytes */${stats.size}`);
-            headers.set('content-length', '0');
-            return new Response(null, {
-                status: 416,
-                headers
-            });
-        }
-        headers.set('content-range', `bytes ${startBytes}-${endBytes - 1}/${stats.size}`);
-        headers.set('content-length', `${endBytes - startBytes}`);
-        headers.set('accept-range', 'bytes');
-        return new Response(Bun.file(resolvedPath).slice(startBytes, endBytes), {
-            status: 206,
-            headers
+            status: precondition,
+            headers: precondition === 304 ? headers : undefined
         });
     }
-    if (cache)
-        headers.set(
-            'cache-control',
-            normalized.startsWith(`/${manifest.appDir}/immutable/`)
-                ? 'public,max-age=604800,immutable'
-                : 'public,max-age=14400'
-        );
-    if (!request.headers.has('accept-encoding')) {
-        return new Response(Bun.file(resolvedPath), {
-            status: 200,
+    if (encoding !== 'identity') headers.set('content-encoding', encoding);
+    const range = request.headers.get('range');
+    const ranges = range !== null && isRangeFresh(request, validators) ? parseRange(range, size) : undefined;
+    if (ranges === null) {
+        headers.set('content-range', `bytes */${size}`);
+        headers.set('content-length', '0');
+        return new Response(null, {
+            status: 416,
             headers
         });
     }
-    const ac = request.headers.get('accept-encoding')!;
-    if (existsSync(resolvedPath + '.gz') && ac.includes('gzip')) {
-        const file = Bun.file(resolvedPath + '.gz');
-        headers.set('content-length', `${file.size}`);
-        headers.set('content-encoding', 'gzip');
-        return new Response(file, {
-            status: 200,
+    if (ranges && ranges.length === 1) {
+        const [{ start, end }] = ranges;
+        headers.set('content-type', file.type);
+        headers.set('content-range', `bytes ${start}-${end}/${size}`);
+        headers.set('content-length', `${end - start + 1}`);
+        return new Response(runtime.readFile(path, start, end), {
+            status: 206,
             headers
         });
     }
-    if (existsSync(resolvedPath + '.br') && ac.includes('br')) {
-        headers.set('content-encoding', 'br');
-        return new Response(Bun.file(resolvedPath + '.br'), {
-            status: 200,
+    if (ranges) {
+        const boundary = randomUUID().replaceAll('-', '');
+        const parts = ranges.map(
+            ({ start, end }, i) =>
+                `${i ? '\r\n' : ''}--${boundary}\r\n` +
+                `content-type: ${file.type}\r\n` +
+                `content-range: bytes ${start}-${end}/${size}\r\n\r\n`
+        );
+        const tail = `\r\n--${boundary}--\r\n`;
+        const length = ranges.reduce(
+            (total, { start, end }, i) => total + Buffer.byteLength(parts[i]) + end - start + 1,
+            Buffer.byteLength(tail)
+        );
+        headers.set('content-type', `multipart/byteranges; boundary=${boundary}`);
+        headers.set('content-length', `${length}`);
+        async function* multipart() {
+            for (let i = 0; i < ranges!.length; i++) {
+                yield Buffer.from(parts[i]);
+                const reader = runtime.readFile(path, ranges![i].start, ranges![i].end).getReader();
+                for (let read = await reader.read(); !read.done; read = await reader.read()) {
+                    yield read.value;
+                }
+            }
+            yield Buffer.from(tail);
+        }
+        return new Response(Readable.toWeb(Readable.from(multipart())) as any, {
+            status: 206,
             headers
         });
     }
-    return new Response(Bun.file(resolvedPath), {
+    headers.set('content-type', file.type);
+    headers.set('content-length', `${size}`);
+    return new Response(runtime.readFile(path), {
         status: 200,
         headers
     });
 }
 
-function parseRange(header: Headers): [number | null, number | null] {
-    if (!header.has('range')) return [null, null];
-    const range = header.get('range')!;
-    const match = /^bytes=(?:(\d+)\-(\d+)?|(\-\d+))/.exec(range);
-    if (!match) return [null, null];
-    if (match[3]) return [+match[3], null];
-    return [+match[1], match[2] ? +match[2] + 1 : null];
-}
-
-async function writeResponse(res: Response, ignoreBody: boolean) {
-    await writeOut(['status', res.status, res.statusText]);
+export async function writeResponse(res: Response, ignoreBody: boolean, write: ResponseWriter) {
+    await write(['status', res.status, res.statusText]);
     const headers: string[] = [];
     res.headers.forEach((val, key) => headers.push(key, val));
     for (let i = 0; i < headers.length; i += 2) {
-        await writeOut(['header', headers[i], headers[i + 1]]);
+        await write(['header', headers[i], headers[i + 1]]);
     }
-    await writeOut(['start-body']);
+    await write(['start-body']);
     if (!res.body || ignoreBody) {
-        await writeOut(['end-body']);
+        await write(['end-body']);
         return;
     }
     const reader = res.body.getReader();
     while (true) {
         const read = await reader.read();
         if (read.value) {
-            await writeOut(['data', Buffer.from(read.value).toString('base64')]);
+            await write(['data', read.value]);
         }
         if (read.done) {
-            await writeOut(['end-body']);
+            await write(['end-body']);
             return;
         }
     }
 }
-
-async function writeOut(data: any) {
-    return new Promise<void>((res, rej) => {
-        process.stdout.write(JSON.stringify(data) + '\n', (err) => {
-            if (err) rej(err);
-            else res();
-        });
-    });
-}
@@ -1,52 +1,377 @@
-import { Server } from 'SERVER';
-import { manifest } from 'MANIFEST';
 import cac from 'cac';
-import { SYM_BASE_PATH, SYM_SERVER } from './symbols';
-import { handle } from './handle';
-import { get_hooks } from 'SERVER';
+import { SYM_BASE_PATH } from './symbols';
+import { handle, isMethod } from './handle';
+import { worker } from './worker';
+import { cgi } from './cgi';
+import { fastcgi } from './fastcgi';
+import { serveHTTP } from './serve';
+import { snapshot } from './snapshot';
+import { invoke } from './invoke';
+import { doctor, info, routes } from './inspect';
+import {
+    activateRelease,
+    listReleases,
+    pruneReleases,
+    releaseRoot,
+    validateReleaseId,
+    verifyRelease
+} from '../release';
+import { join } from 'path';
+import { cacheDir, cacheStats, purgeCache } from './cache';
+import { appHooks, boot, exitProcess } from './app';
+import { applyLogLevel, printLine } from './log';
+import { env } from './env';
+import { EXIT_APP_ERROR } from './errors';
+import type { Protocol } from './protocol';
+import { runtime } from './runtime';
 
-const server = new Server(manifest);
-await server.init({ env: Bun.env as any });
+(globalThis as any)[SYM_BASE_PATH] = runtime.baseDir;
 
-(globalThis as any)[SYM_BASE_PATH] = import.meta.dirname;
-(globalThis as any)[SYM_SERVER] = server;
-
-const hooks = await get_hooks();
-
-await hooks.bootstrap?.();
-
-const methods = new Set(['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'OPTIONS']);
+function parseProtocol(protocol: string): Protocol {
+    if (protocol !== 'json' && protocol !== 'binary') {
+        throw new Error(`invalid protocol: ${protocol}`);
+    }
+    return protocol;
+}
 
 const cli = cac();
 
+const lazyCommands = new Set(['render', 'cgi', 'cache', 'invoke', 'routes', 'info', 'doctor', 'release']);
+
 cli.command('render', 'Handle a http request')
     .option('--url, -u <url>', 'URL of the request')
     .option('--method, -m <method>', 'Method of the request')
     .option('--client-ip, -i [clientIP]', 'Client IP')
     .option('--no-static', 'Disable serve static file')
-    .action((opts: { url: string; method: string; clientIp: string; static: boolean }) => {
+    .option('--protocol <protocol>', 'Protocol of the messages, json or binary', { default: 'json' })
+    .action((opts: { url: string; method: string; clientIp: string; static: boolean; protocol: string }) => {
         if (typeof opts.url !== 'string' || !URL.canParse(opts.url)) {
             throw new Error('url option need to be a valid url.');
         }
         if (typeof opts.method !== 'string') {
             throw new Error(`method must be a string.`);
         }
-        const method = opts.method.toUpperCase() as any;
-        if (!methods.has(method)) {
+        const method = opts.method.toUpperCase();
+        if (!isMethod(method)) {
             throw new Error(`invalid method: ${method}`);
         }
         const serveStatic = Boolean(opts.static);
-        const clientIP = `${opts.clientIp}`;
-        handle({
-            url: new URL(opts.url),
-            method,
-            clientIP,
-            static: serveStatic
+        const clientIP = opts.clientIp ? `${opts.clientIp}` : undefined;
+        handle(
+            {
+                url: new URL(opts.url),
+                method,
+                clientIP,
+                static: serveStatic
+            },
+            parseProtocol(opts.protocol)
+        );
+    });
+
+cli.command('worker', 'Handle many concurrent requests until drained')
+    .option('--no-static', 'Disable serve static file')
+    .option('--max-requests <count>', 'Drain and exit after serving this many requests', { default: 0 })
+    .option('--idle-timeout <ms>', 'Drain and exit after being idle for this many milliseconds', { default: 0 })
+    .option('--protocol <protocol>', 'Protocol of the messages, json or binary', { default: 'json' })
+    .action((opts: { static: boolean; maxRequests: number; idleTimeout: number; protocol: string }) => {
+        const maxRequests = Number(opts.maxRequests);
+        const idleTimeout = Number(opts.idleTimeout);
+        if (!Number.isInteger(maxRequests) || maxRequests < 0) {
+            throw new Error('max-requests must be a non-negative integer.');
+        }
+        if (!Number.isFinite(idleTimeout) || idleTimeout < 0) {
+            throw new Error('idle-timeout must be a non-negative number.');
+        }
+        worker({
+            static: Boolean(opts.static),
+            protocol: parseProtocol(opts.protocol),
+            maxRequests,
+            idleTimeout
+        });
+    });
+
+cli.command('cgi', 'Handle a http request following CGI/1.1')
+    .option('--no-static', 'Disable serve static file')
+    .action((opts: { static: boolean }) => {
+        cgi({ static: Boolean(opts.static) });
+    });
+
+cli.command('fastcgi', 'Serve requests as a FastCGI responder')
+    .option('--socket, -s <path>', 'Unix socket to listen on, defaults to the inherited FCGI_LISTENSOCK_FILENO')
+    .option('--no-static', 'Disable serve static file')
+    .action((opts: { socket?: string; static: boolean }) => {
+        fastcgi({
+            socket: opts.socket ? `${opts.socket}` : undefined,
+            static: Boolean(opts.static)
+        });
+    });
+
+cli.command('serve', 'Serve http locally through the render protocol, for testing the build')
+    .option('--port, -p <port>', 'Port to listen on', { default: 3000 })
+    .option('--host <host>', 'Host to listen on', { default: 'localhost' })
+    .option('--spawn', 'Handle every request in a spawned render process')
+    .option('--trace', 'Log the protocol messages of every request')
+    .option('--no-static', 'Disable serve static file')
+    .action((opts: { port: number; host: string; spawn?: boolean; trace?: boolean; static: boolean }) => {
+        const port = Number(opts.port);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+            throw new Error('port must be an integer between 0 and 65535.');
+        }
+        serveHTTP({
+            port,
+            host: `${opts.host}`,
+            static: Boolean(opts.static),
+            spawn: Boolean(opts.spawn),
+            trace: Boolean(opts.trace)
         });
     });
 
+cli.command('snapshot [...urls]', 'Render pages and write them into prerendered/')
+    .option('--origin <origin>', 'Origin of the paths to render, defaults to ORIGIN')
+    .option('--sitemap <sitemap>', 'Render the URLs of a sitemap, a file or a path of the app')
+    .option('--crawl', 'Follow links to pages of the same origin')
+    .option('--limit <count>', 'Stop after rendering this many pages, 0 for unlimited', { default: 0 })
+    .option('--concurrency <count>', 'Number of pages to render at the same time', { default: 4 })
+    .option('--status <statuses>', 'Comma separated statuses of the responses to write', { default: '200' })
+    .option('--no-precompress', 'Do not pre-compress the written files')
+    .action(
+        (
+            urls: string[],
+            opts: {
+                origin?: string;
+                sitemap?: string;
+                crawl?: boolean;
+                limit: number;
+                concurrency: number;
+                status: string | number;
+                precompress: boolean;
+            }
+        ) => {
+            const origin = opts.origin ? `${opts.origin}` : env('ORIGIN', 'http://localhost');
+            if (!URL.canParse(origin)) {
+                throw new Error('origin must be a valid url.');
+            }
+            const limit = Number(opts.limit);
+            const concurrency = Number(opts.concurrency);
+            if (!Number.isInteger(limit) || limit < 0) {
+                throw new Error('limit must be a non-negative integer.');
+            }
+            if (!Number.isInteger(concurrency) || concurrency < 1) {
+                throw new Error('concurrency must be a positive integer.');
+            }
+            const statuses = new Set(`${opts.status}`.split(',').map((s) => Number(s.trim())));
+            if ([...statuses].some((s) => !Number.isInteger(s))) {
+                throw new Error(`invalid status: ${opts.status}`);
+            }
+            if (!urls.length && !opts.sitemap) {
+                throw new Error('Nothing to snapshot, give some urls or --sitemap.');
+            }
+            snapshot({
+                urls,
+                origin,
+                sitemap: opts.sitemap ? `${opts.sitemap}` : undefined,
+                crawl: Boolean(opts.crawl),
+                limit,
+                concurrency,
+                statuses,
+                precompress: Boolean(opts.precompress)
+            }).then(() => exitProcess());
+        }
+    );
+
+cli.command('invoke <path>', 'Call an endpoint in process and print the response body, for cron jobs')
+    .option('--origin <origin>', 'Origin of the request, defaults to ORIGIN')
+    .option('--method, -X <method>', 'Method of the request, defaults to POST with a body, otherwise GET')
+    .option('--header, -H <header>', "Header of the request as 'name: value', repeatable")
+    .option('--data, -d <data>', 'Body of the request')
+    .option('--data-file [file]', 'Read the body of the request from a file, stdin without one or with -')
+    .option('--json <json>', 'Send a JSON body and accept JSON')
+    .option('--include, -i', 'Print the status line and the headers of the response')
+    .example('invoke /api/cleanup -X POST -H "authorization: Bearer $TOKEN"')
+    .action(
+        (
+            path: string,
+            opts: {
+                origin?: string;
+                method?: string;
+                header?: string | string[];
+                data?: string | string[];
+                dataFile?: string | boolean;
+                json?: string;
+                include?: boolean;
+            }
+        ) => {
+            const origin = opts.origin ? `${opts.origin}` : env('ORIGIN', 'http://localhost');
+            if (!URL.canParse(origin)) {
+                throw new Error('origin must be a valid url.');
+            }
+            if ([opts.data, opts.dataFile, opts.json].filter((body) => body !== undefined).length > 1) {
+                throw new Error('Only one of --data, --data-file and --json can be given.');
+            }
+            invoke({
+                path: `${path}`,
+                origin,
+                method: opts.method ? `${opts.method}` : undefined,
+                headers: [opts.header ?? []].flat().map((header) => `${header}`),
+                // repeated like curl, joined as form fields
+                data: opts.data === undefined ? undefined : [opts.data].flat().join('&'),
+                dataFile: opts.dataFile === undefined ? undefined : opts.dataFile === true ? '-' : `${opts.dataFile}`,
+                json: opts.json === undefined ? undefined : `${opts.json}`,
+                include: Boolean(opts.include)
+            }).then(
+                (code) => exitProcess(code),
+                (err) => {
+                    console.error(err);
+                    exitProcess(EXIT_APP_ERROR);
+                }
+            );
+        }
+    );
+
+cli.command('cache <action> [pattern]', 'Manage the response cache in CACHE_DIR, purge [pattern] or stats')
+    .example('cache purge "/blog/**"')
+    .action((action: string, pattern?: string) => {
+        const dir = cacheDir();
+        if (!dir) {
+            throw new Error('The response cache is disabled, set CACHE_DIR to enable it.');
+        }
+        switch (action) {
+            case 'purge':
+                printLine(`${purgeCache(dir, pattern)} purged`);
+                break;
+            case 'stats': {
+                const stats = cacheStats(dir);
+                printLine(`entries: ${stats.entries}`);
+                printLine(`fresh:   ${stats.fresh}`);
+                printLine(`stale:   ${stats.stale}`);
+                printLine(`expired: ${stats.expired}`);
+                printLine(`bytes:   ${stats.bytes}`);
+                break;
+            }
+            default:
+                throw new Error(`invalid action: ${action}, expected purge or stats`);
+        }
+    });
+
+cli.command('release <action> [id]', 'Manage the releases, activate <id>, list or prune')
+    .option('--keep <count>', 'Number of the newest releases prune keeps', { default: 5 })
+    .option('--no-verify', 'Activate without comparing the files with their checksums')
+    .example('release activate 1718000000000')
+    .example('release prune --keep 3')
+    .action((action: string, id: string | undefined, opts: { keep: number; verify: boolean }) => {
+        const root = releaseRoot(runtime.baseDir);
+        switch (action) {
+            case 'activate': {
+                if (id === undefined) {
+                    throw new Error('Missing the id of the release to activate.');
+                }
+                const problems = opts.verify ? verifyRelease(join(root, 'releases', validateReleaseId(`${id}`))) : [];
+                if (problems.length) {
+                    throw new Error(`Release ${id} is incomplete:\n  ${problems.join('\n  ')}`);
+                }
+                activateRelease(root, `${id}`);
+                printLine(`${id} activated`);
+                break;
+            }
+            case 'list':
+                for (const release of listReleases(root).reverse()) {
+                    printLine(`${release.current ? '*' : ' '} ${release.id}  ${release.time}`);
+                }
+                break;
+            case 'prune': {
+                const keep = Number(opts.keep);
+                if (!Number.isInteger(keep) || keep < 1) {
+                    throw new Error('keep must be a positive integer.');
+                }
+                for (const removed of pruneReleases(root, keep)) {
+                    printLine(`${removed} removed`);
+                }
+                break;
+            }
+            default:
+                throw new Error(`invalid action: ${action}, expected activate, list or prune`);
+        }
+    });
+
+cli.command('routes', 'List the routes of the app')
+    .option('--json', 'Print as JSON')
+    .action((opts: { json?: boolean }) => {
+        const list = routes();
+        if (opts.json) {
+            printLine(JSON.stringify(list, null, 4));
+            return;
+        }
+        const width = Math.max(...list.map((route) => route.id.length));
+        for (const route of list) {
+            const kind = route.kind.join('+').padEnd(13);
+            printLine(`${route.id.padEnd(width)}  ${kind}  ${route.prerendered ? 'prerendered' : ''}`.trimEnd());
+        }
+    });
+
+cli.command('info', 'Print facts about the build')
+    .option('--json', 'Print as JSON')
+    .action((opts: { json?: boolean }) => {
+        const build = info();
+        if (opts.json) {
+            printLine(JSON.stringify(build, null, 4));
+            return;
+        }
+        printLine(`adapter:     ${build.adapter}`);
+        printLine(`kit:         ${build.kit}`);
+        printLine(`base:        ${build.base || '/'}`);
+        printLine(`appDir:      ${build.appDir}`);
+        printLine(`built:       ${build.time} with ${build.builtWith}`);
+        printLine(`runtime:     ${build.runtime}${build.compile ? ` (${build.compile})` : ''}`);
+        printLine(`precompress: ${build.precompress.join(', ') || 'none'}`);
+    });
+
+cli.command('doctor', 'Check whether the environment can run the build')
+    .option('--json', 'Print as JSON')
+    .action(async (opts: { json?: boolean }) => {
+        const checks = await doctor();
+        if (opts.json) {
+            printLine(JSON.stringify(checks, null, 4));
+        } else {
+            for (const check of checks) {
+                printLine(`${check.status.padEnd(4)}  ${check.name.padEnd(12)}  ${check.message}`);
+            }
+        }
+        if (checks.some((check) => check.status === 'fail')) process.exitCode = 1;
+    });
+
 cli.help();
 
-await hooks.setupCLI?.(cli);
+// no top-level await, so the cli can also be bundled as commonjs for the bytecode cache
+/**
+ * Name of the command matched by the arguments before `setupCLI` adds its commands,
+ * without printing the help or the version.
+ */
+function parsedCommand() {
+    const { showHelpOnExit, showVersionOnExit } = cli;
+    cli.showHelpOnExit = cli.showVersionOnExit = false;
+    cli.parse(process.argv, { run: false });
+    Object.assign(cli, { showHelpOnExit, showVersionOnExit });
+    return cli.matchedCommandName;
+}
+
+async function main() {
+    applyLogLevel();
+
+    // doctor loads the hooks after checking the dependencies, to report the failure
+    if (parsedCommand() !== 'doctor') {
+        const hooks = await appHooks();
+        await hooks.setupCLI?.(cli);
+    }
+
+    cli.parse(process.argv, { run: false });
+
+    // these boot the app themselves when a request reaches it, or never need it
+    if (cli.matchedCommand && !lazyCommands.has(cli.matchedCommandName!)) await boot();
+
+    await cli.runMatchedCommand();
+}
 
-cli.parse();
+main().catch((err) => {
+    console.error(err);
+    exitProcess(1);
+});
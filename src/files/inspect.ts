@@ -0,0 +1,166 @@
+import { accessSync, constants, existsSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { SSRManifest } from '@sveltejs/kit';
+import { build, manifest, prerendered } from 'MANIFEST';
+import { runtime } from './runtime';
+import { SYM_BUNDLE } from './symbols';
+import { appHooks } from './app';
+import { errorMessage } from './errors';
+import type { BuildInfo } from '../info';
+
+export type RouteInfo = {
+    id: string;
+    pattern: string;
+
+    /**
+     * Empty for a prerendered path without a route in the manifest.
+     */
+    kind: ('page' | 'endpoint')[];
+
+    /**
+     * Some path of the route is prerendered.
+     */
+    prerendered: boolean;
+};
+
+export type Check = {
+    name: string;
+    status: 'ok' | 'warn' | 'fail';
+    message: string;
+};
+
+type SSRRoute = SSRManifest['_']['routes'][number];
+
+const MIN_BUN = '1.1.0';
+const MIN_NODE = '20.0.0';
+
+/**
+ * Routes of the app in the order they are matched. Routes which are only prerendered are
+ * left out of the manifest, their prerendered paths are listed instead.
+ */
+export function routes(): RouteInfo[] {
+    const paths = [...prerendered].map((path: string) => path.slice(build.base.length) || '/');
+    const list: RouteInfo[] = manifest._.routes.map((route: SSRRoute) => ({
+        id: route.id,
+        pattern: route.pattern.source,
+        kind: [...(route.page ? ['page' as const] : []), ...(route.endpoint ? ['endpoint' as const] : [])],
+        prerendered: paths.some((path) => route.pattern.test(path))
+    }));
+    for (const path of paths) {
+        if (manifest._.routes.some((route: SSRRoute) => route.pattern.test(path))) continue;
+        list.push({
+            id: path,
+            pattern: `^${path.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}$`,
+            kind: [],
+            prerendered: true
+        });
+    }
+    return list;
+}
+
+export function info(): BuildInfo {
+    return build;
+}
+
+function compareVersions(a: string, b: string) {
+    const [x, y] = [a, b].map((version) => version.split(/[.-]/).slice(0, 3).map(Number));
+    for (let i = 0; i < 3; i++) {
+        if (x[i] !== y[i]) return (x[i] || 0) - (y[i] || 0);
+    }
+    return 0;
+}
+
+function checkRuntime(): Check {
+    if (RUNTIME === 'bun') {
+        if (compareVersions(Bun.version, MIN_BUN) < 0) {
+            return { name: 'runtime', status: 'fail', message: `Bun v${Bun.version}, ${MIN_BUN} or newer is required` };
+        }
+        if (build.compile === 'bytecode' && build.builtWith !== `Bun v${Bun.version}`) {
+            return {
+                name: 'runtime',
+                status: 'warn',
+                message: `Bun v${Bun.version}, the bytecode cache is only used by ${build.builtWith} which built it`
+            };
+        }
+        return { name: 'runtime', status: 'ok', message: `Bun v${Bun.version}` };
+    }
+    if (compareVersions(process.versions.node, MIN_NODE) < 0) {
+        return {
+            name: 'runtime',
+            status: 'fail',
+            message: `Node.js v${process.versions.node}, ${MIN_NODE} or newer is required`
+        };
+    }
+    return { name: 'runtime', status: 'ok', message: `Node.js v${process.versions.node}` };
+}
+
+/**
+ * Look the package up in the `node_modules` of the directory and its parents, like the
+ * module resolution does.
+ */
+function findPackage(name: string, from: string): boolean {
+    for (let dir = from; ; dir = dirname(dir)) {
+        if (existsSync(join(dir, 'node_modules', name, 'package.json'))) return true;
+        if (dirname(dir) === dir) return false;
+    }
+}
+
+function checkDependencies(): Check {
+    if (build.compile) {
+        return { name: 'dependencies', status: 'ok', message: 'bundled into the cli' };
+    }
+    // the package.json written by the adapter lists the packages imported by the server
+    const file = join(runtime.baseDir, 'package.json');
+    let pkg: { dependencies?: Record<string, string> };
+    try {
+        pkg = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (err) {
+        return { name: 'dependencies', status: 'fail', message: `${file} can not be read (${errorMessage(err)})` };
+    }
+    const dependencies = Object.keys(pkg.dependencies ?? {});
+    const missing = dependencies.filter((name) => !findPackage(name, runtime.baseDir));
+    if (missing.length) {
+        return { name: 'dependencies', status: 'fail', message: `missing ${missing.join(', ')}, install them` };
+    }
+    return { name: 'dependencies', status: 'ok', message: `${dependencies.length} installed` };
+}
+
+async function checkHooks(): Promise<Check> {
+    try {
+        await appHooks();
+        return { name: 'hooks', status: 'ok', message: 'hooks.server loaded' };
+    } catch (err) {
+        return { name: 'hooks', status: 'fail', message: `hooks.server failed to load (${errorMessage(err)})` };
+    }
+}
+
+function checkDirectory(name: string): Check {
+    if (Object.keys((globalThis as any)[SYM_BUNDLE]?.assets ?? {}).length) {
+        return { name, status: 'ok', message: 'embedded into the executable' };
+    }
+    const dir = join(runtime.baseDir, name);
+    try {
+        accessSync(dir, constants.R_OK | constants.X_OK);
+        return { name, status: 'ok', message: `${dir} is readable` };
+    } catch (err: any) {
+        return { name, status: 'fail', message: `${dir} is not readable (${err.code})` };
+    }
+}
+
+function checkEnv(): Check {
+    const missing = build.requiredEnv.filter((name: string) => !runtime.env[name]);
+    if (missing.length) {
+        return { name: 'env', status: 'fail', message: `${missing.join(', ')} not set` };
+    }
+    return { name: 'env', status: 'ok', message: `${build.requiredEnv.length} required set` };
+}
+
+/**
+ * Check whether the environment can run the build. The dependencies are checked before
+ * `hooks.server` is loaded, which fails when one of them is missing.
+ */
+export async function doctor(): Promise<Check[]> {
+    const checks = [checkRuntime(), checkDependencies()];
+    checks.push(await checkHooks(), checkDirectory('client'), checkDirectory('prerendered'), checkEnv());
+    return checks;
+}
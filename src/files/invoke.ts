@@ -0,0 +1,127 @@
+import type { Server } from 'SERVER';
+import { readFileSync } from 'fs';
+import { STATUS_CODES } from 'http';
+import { createRequestContext, installRequestContext, withRequestContext } from './context';
+import { createRequest, hasBody, isMethod, redirectConsole } from './handle';
+import { EXIT_HTTP_ERROR, EXIT_OK } from './errors';
+import { SYM_SERVER } from './symbols';
+import { env } from './env';
+import { boot } from './app';
+
+export type InvokeOptions = {
+    /**
+     * Path of the endpoint relative to the origin.
+     */
+    path: string;
+
+    origin: string;
+
+    /**
+     * Defaults to POST with a body, otherwise GET.
+     */
+    method?: string;
+
+    /**
+     * Headers as `name: value`.
+     */
+    headers: string[];
+
+    data?: string;
+
+    /**
+     * File to read the body from, `-` for stdin.
+     */
+    dataFile?: string;
+
+    /**
+     * Body sent as `application/json`.
+     */
+    json?: string;
+
+    /**
+     * Print the status line and the headers before the body.
+     */
+    include: boolean;
+};
+
+/**
+ * Header carrying `INVOKE_SECRET`, so the app can tell the request comes from `invoke`.
+ */
+export const INVOKE_SECRET_HEADER = 'x-invoke-secret';
+
+function print(data: string | Uint8Array) {
+    return new Promise<void>((res, rej) => {
+        process.stdout.write(data, (err) => {
+            if (err) rej(err);
+            else res();
+        });
+    });
+}
+
+/**
+ * Call an endpoint of the app in process and print the response body, resolves with the
+ * exit code once the `waitUntil` tasks are settled.
+ */
+export async function invoke(options: InvokeOptions) {
+    // stdout is for the response body
+    redirectConsole();
+    installRequestContext();
+    const headers = new Headers();
+    for (const header of options.headers) {
+        const separator = header.indexOf(':');
+        if (separator <= 0) throw new Error(`Invalid header: ${header}, expected 'name: value'.`);
+        headers.append(header.slice(0, separator).trim(), header.slice(separator + 1).trim());
+    }
+    let body: string | Buffer | undefined = options.data;
+    if (body !== undefined && !headers.has('content-type')) {
+        // like curl, so the app can read the fields with `formData()`
+        headers.set('content-type', 'application/x-www-form-urlencoded');
+    }
+    if (options.dataFile !== undefined) {
+        body = readFileSync(options.dataFile === '-' ? 0 : options.dataFile);
+    }
+    if (options.json !== undefined) {
+        body = options.json;
+        if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+        if (!headers.has('accept')) headers.set('accept', 'application/json');
+    }
+    const url = new URL(options.path, options.origin);
+    // a trusted call from the same origin, passes the CSRF check of form submissions
+    if (!headers.has('origin')) headers.set('origin', url.origin);
+    const secret = env('INVOKE_SECRET');
+    if (secret) headers.set(INVOKE_SECRET_HEADER, secret);
+    const method = (options.method ?? (body === undefined ? 'GET' : 'POST')).toUpperCase();
+    if (!isMethod(method)) {
+        throw new Error(`invalid method: ${method}`);
+    }
+    if (body !== undefined && !hasBody(method)) {
+        throw new Error(`${method} requests can not have a body.`);
+    }
+
+    await boot();
+    const server = (globalThis as any)[SYM_SERVER] as Server;
+    const context = createRequestContext();
+    const request = createRequest(url, { method, headers, body });
+    const res = await withRequestContext(context, () =>
+        server.respond(request, {
+            getClientAddress() {
+                return '127.0.0.1';
+            }
+        })
+    );
+    if (options.include) {
+        let head = `HTTP/1.1 ${res.status} ${res.statusText || STATUS_CODES[res.status] || ''}\r\n`;
+        res.headers.forEach((value, name) => {
+            head += `${name}: ${value}\r\n`;
+        });
+        await print(head + '\r\n');
+    }
+    if (res.body) {
+        const reader = res.body.getReader();
+        for (let read = await reader.read(); !read.done; read = await reader.read()) {
+            await print(read.value);
+        }
+    }
+    await context.settled();
+    return res.status >= 400 ? EXIT_HTTP_ERROR : EXIT_OK;
+}
@@ -0,0 +1,89 @@
+import { STATUS_CODES } from 'http';
+import { env } from './env';
+
+function parseBytes(value: string) {
+    const multiplier = { K: 1024, M: 1024 * 1024, G: 1024 * 1024 * 1024 }[value[value.length - 1]?.toUpperCase()] ?? 1;
+    return Number(multiplier != 1 ? value.substring(0, value.length - 1) : value) * multiplier;
+}
+
+function parseTimeout(name: string, fallback = 0) {
+    const value = Number(env(name, `${fallback}`));
+    if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`${ENV_PREFIX + name} must be a non-negative number of milliseconds, got ${env(name)}`);
+    }
+    return value;
+}
+
+export const bodySizeLimit = parseBytes(env('BODY_SIZE_LIMIT', '512K'));
+
+if (isNaN(bodySizeLimit)) {
+    throw new Error(`Invalid BODY_SIZE_LIMIT: '${env('BODY_SIZE_LIMIT')}'. Please provide a numeric value.`);
+}
+
+/**
+ * Largest binary frame accepted from the bridge, a data frame may carry the whole body with
+ * room for its other fields. 0 when the body size is not limited.
+ */
+export const maxFrameSize = bodySizeLimit > 0 ? bodySizeLimit + 64 * 1024 : 0;
+
+/**
+ * Milliseconds to wait for all headers of a request, 0 to disable.
+ */
+export const headerTimeout = parseTimeout('HEADER_TIMEOUT');
+
+/**
+ * Milliseconds to wait for the whole request body, 0 to disable.
+ */
+export const bodyTimeout = parseTimeout('BODY_TIMEOUT');
+
+/**
+ * Milliseconds to wait for the app to respond, 0 to disable.
+ */
+export const renderTimeout = parseTimeout('RENDER_TIMEOUT');
+
+/**
+ * Milliseconds to wait for `waitUntil` tasks after the response before exiting anyway,
+ * 0 to wait forever.
+ */
+export const waitUntilTimeout = parseTimeout('WAIT_UNTIL_TIMEOUT', 10000);
+
+/**
+ * Check the `content-length` of a request against `BODY_SIZE_LIMIT`.
+ */
+export function exceedsBodySizeLimit(headers: Headers) {
+    const length = Number(headers.get('content-length'));
+    return bodySizeLimit > 0 && length > bodySizeLimit;
+}
+
+export function errorResponse(status: number) {
+    return new Response(`${status} ${STATUS_CODES[status]}`, {
+        status,
+        headers: {
+            'content-type': 'text/plain'
+        }
+    });
+}
+
+/**
+ * Settle a promise, gives up after a timeout, 0 to wait forever.
+ */
+export function settleWithin(promise: Promise<any>, timeout: number) {
+    if (timeout <= 0)
+        return promise.then(
+            () => {},
+            () => {}
+        );
+    let timer: ReturnType<typeof setTimeout>;
+    return Promise.race([
+        promise.then(
+            () => {},
+            () => {}
+        ),
+        new Promise<void>((res) => {
+            timer = setTimeout(() => {
+                console.error(`Gave up waiting after ${timeout}ms.`);
+                res();
+            }, timeout);
+        })
+    ]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,201 @@
+import { appendFileSync } from 'fs';
+import { resolve } from 'path';
+import { env } from './env';
+import { runtime } from './runtime';
+import type { ResponseWriter } from './protocol';
+import { takeBootTimings } from './app';
+
+/**
+ * How a response was resolved.
+ */
+export type Source = 'static' | 'prerendered' | 'hook' | 'cache' | 'ssr' | 'redirect';
+
+export type AccessEntry = {
+    time: Date;
+    method: string;
+    url: string;
+    status: number;
+    bytes: number;
+    clientIP?: string;
+    userAgent?: string;
+    referer?: string;
+    source?: Source;
+
+    /**
+     * Milliseconds spent in each phase, `boot` only for the request which booted the app.
+     */
+    timings: {
+        boot?: BootTimings;
+        resolve: number;
+        stream: number;
+        waitUntil: number;
+        total: number;
+    };
+};
+
+export type BootTimings = {
+    init: number;
+    bootstrap: number;
+};
+
+const levels = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+
+const consoleLevels: Record<string, (typeof levels)[number]> = {
+    trace: 'debug',
+    debug: 'debug',
+    log: 'info',
+    info: 'info',
+    warn: 'warn',
+    error: 'error'
+};
+
+/**
+ * Silence the methods of the console below `LOG_LEVEL`.
+ */
+export function applyLogLevel(target: Console = console) {
+    const level = env('LOG_LEVEL', 'info').toLowerCase() as (typeof levels)[number];
+    if (!levels.includes(level)) {
+        throw new Error(`Invalid LOG_LEVEL: '${env('LOG_LEVEL')}', expected one of ${levels.join(', ')}.`);
+    }
+    for (const [method, methodLevel] of Object.entries(consoleLevels)) {
+        if (levels.indexOf(methodLevel) < levels.indexOf(level)) {
+            (target as any)[method] = () => {};
+        }
+    }
+}
+
+let stdoutGuarded = false;
+
+/**
+ * Print a line of the output of a command, which `LOG_LEVEL` does not silence unlike the console.
+ * Like the console, it ignores a reader which stopped reading, such as `head`.
+ */
+export function printLine(line: string) {
+    if (!stdoutGuarded) {
+        stdoutGuarded = true;
+        process.stdout.on('error', (err: NodeJS.ErrnoException) => {
+            if (err.code !== 'EPIPE') throw err;
+        });
+    }
+    process.stdout.write(line + '\n');
+}
+
+function round(ms: number) {
+    return Math.round(ms * 100) / 100;
+}
+
+function clfTime(time: Date) {
+    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+    const pad = (n: number) => `${n}`.padStart(2, '0');
+    const offset = -time.getTimezoneOffset();
+    const zone = `${offset < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(offset) / 60))}${pad(Math.abs(offset) % 60)}`;
+    return (
+        `${pad(time.getDate())}/${months[time.getMonth()]}/${time.getFullYear()}:` +
+        `${pad(time.getHours())}:${pad(time.getMinutes())}:${pad(time.getSeconds())} ${zone}`
+    );
+}
+
+function format(entry: AccessEntry) {
+    if (env('ACCESS_LOG_FORMAT', 'json') === 'clf') {
+        const url = new URL(entry.url);
+        return (
+            `${entry.clientIP || '-'} - - [${clfTime(entry.time)}] ` +
+            `"${entry.method} ${url.pathname}${url.search} HTTP/1.1" ${entry.status} ${entry.bytes || '-'}`
+        );
+    }
+    const { boot, ...timings } = entry.timings;
+    return JSON.stringify({
+        ...entry,
+        time: entry.time.toISOString(),
+        timings: {
+            ...(boot && { boot: { init: round(boot.init), bootstrap: round(boot.bootstrap) } }),
+            ...Object.fromEntries(Object.entries(timings).map(([name, ms]) => [name, round(ms)]))
+        }
+    });
+}
+
+/**
+ * Measure the phases of a request and collect what the access log records about it.
+ */
+export function requestTimer(method: string, url: URL, headers: Headers, clientIP?: string) {
+    const time = new Date();
+    const start = performance.now();
+    let dispatched = start;
+    let resolved: number | undefined;
+    let streamed: number | undefined;
+    let status = 0;
+    let bytes = 0;
+    return {
+        /**
+         * The request is handed to the app.
+         */
+        dispatch() {
+            dispatched = performance.now();
+        },
+        /**
+         * The response starts with this status.
+         */
+        resolve(responseStatus: number) {
+            resolved ??= performance.now();
+            status = responseStatus;
+        },
+        send(length: number) {
+            bytes += length;
+        },
+        /**
+         * The response is written completely.
+         */
+        stream() {
+            streamed ??= performance.now();
+        },
+        /**
+         * The entry of the request once its `waitUntil` tasks are settled.
+         */
+        entry(source?: Source): AccessEntry {
+            const now = performance.now();
+            resolved ??= now;
+            streamed ??= now;
+            return {
+                time,
+                method,
+                url: url.href,
+                status,
+                bytes,
+                clientIP,
+                userAgent: headers.get('user-agent') ?? undefined,
+                referer: headers.get('referer') ?? undefined,
+                source,
+                timings: {
+                    boot: takeBootTimings(),
+                    resolve: resolved - dispatched,
+                    stream: streamed - resolved,
+                    waitUntil: now - streamed,
+                    total: now - start
+                }
+            };
+        }
+    };
+}
+
+export type RequestTimer = ReturnType<typeof requestTimer>;
+
+/**
+ * Write an access log line to the destination of `ACCESS_LOG`: a file relative to the
+ * cli, `stderr`, or `protocol` for a `log` message to the bridge.
+ */
+export async function accessLog(entry: AccessEntry, write?: ResponseWriter) {
+    const destination = env('ACCESS_LOG');
+    if (!destination) return;
+    if (!['json', 'clf'].includes(env('ACCESS_LOG_FORMAT', 'json'))) {
+        throw new Error(`Invalid ACCESS_LOG_FORMAT: '${env('ACCESS_LOG_FORMAT')}', expected json or clf.`);
+    }
+    const line = format(entry);
+    if (destination === 'protocol' && write) {
+        await write(['log', line]);
+    } else if (destination === 'stderr' || destination === 'protocol') {
+        process.stderr.write(line + '\n');
+    } else {
+        // appending a single line is atomic, so concurrent processes can share the file
+        appendFileSync(resolve(runtime.baseDir, destination), line + '\n');
+    }
+}
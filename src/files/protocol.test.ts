@@ -0,0 +1,133 @@
+import { describe, expect, test } from 'bun:test';
+import { encodeFrame, encodeJSON, MessageDecoder, type Message, type Protocol } from './protocol';
+
+/**
+ * Feed the chunks to a decoder and collect the messages, or the error it failed with.
+ */
+async function decode(chunks: (string | Buffer)[], protocol?: Protocol, maxFrameSize?: number) {
+    const decoder = new MessageDecoder(protocol, maxFrameSize);
+    const messages: Message[] = [];
+    decoder.on('message', (message: Message) => messages.push(message));
+    let error: Error | undefined;
+    decoder.on('error', (err) => (error = err));
+    for (const chunk of chunks) {
+        await new Promise<void>((resolve) => decoder.write(chunk, () => resolve()));
+        if (error) break;
+    }
+    return { messages, error, decoder };
+}
+
+describe('binary frames', () => {
+    test('round trip each field type', async () => {
+        const bytes = new Uint8Array([0, 1, 2, 255]);
+        const message: Message = ['header', 'x-name', 'välue ✓', 42.5, -1, bytes, ''];
+        const { messages } = await decode([encodeFrame(message)], 'binary');
+        expect(messages).toHaveLength(1);
+        const [decoded] = messages;
+        expect(decoded.slice(0, 5)).toEqual(['header', 'x-name', 'välue ✓', 42.5, -1]);
+        expect(new Uint8Array(decoded[5] as Uint8Array)).toEqual(bytes);
+        expect(decoded[6]).toBe('');
+    });
+
+    test('a frame without fields', async () => {
+        const { messages } = await decode([encodeFrame(['end-body'])], 'binary');
+        expect(messages).toEqual([['end-body']]);
+    });
+
+    test('frames split across chunks', async () => {
+        const data = Buffer.concat([
+            encodeFrame(['header', 'a', 'b']),
+            encodeFrame(['data', Buffer.from('hello')]),
+            encodeFrame(['end-body'])
+        ]);
+        const chunks = [];
+        for (let i = 0; i < data.length; i += 3) chunks.push(data.subarray(i, i + 3));
+        const { messages } = await decode(chunks, 'binary');
+        expect(messages.map((message) => message[0])).toEqual(['header', 'data', 'end-body']);
+        expect(Buffer.from(messages[1][1] as Uint8Array).toString()).toBe('hello');
+    });
+
+    test('a frame header smaller than 5 bytes in the first chunk', async () => {
+        const frame = encodeFrame(['header', 'name', 'value']);
+        const { messages } = await decode([frame.subarray(0, 2), frame.subarray(2, 4), frame.subarray(4)], 'binary');
+        expect(messages).toEqual([['header', 'name', 'value']]);
+    });
+
+    test('several frames in one chunk', async () => {
+        const data = Buffer.concat([encodeFrame(['start-body']), encodeFrame(['end-body'])]);
+        const { messages } = await decode([data], 'binary');
+        expect(messages).toEqual([['start-body'], ['end-body']]);
+    });
+
+    test('an unknown frame type fails', async () => {
+        const frame = encodeFrame(['end-body']);
+        frame.writeUInt8(200, 0);
+        const { error } = await decode([frame], 'binary');
+        expect(error?.name).toBe('ProtocolError');
+    });
+
+    test('a field exceeding its frame fails', async () => {
+        const frame = encodeFrame(['header', 'a', 'b']);
+        frame.writeUInt32BE(100, 5 + 1);
+        const { error } = await decode([frame], 'binary');
+        expect(error?.message).toContain('exceeds the frame');
+    });
+});
+
+describe('max frame size', () => {
+    test('a frame within the limit', async () => {
+        const frame = encodeFrame(['data', Buffer.alloc(100)]);
+        const { messages, error } = await decode([frame], 'binary', frame.length);
+        expect(error).toBeUndefined();
+        expect(messages).toHaveLength(1);
+    });
+
+    test('a frame over the limit fails before it is buffered', async () => {
+        const frame = encodeFrame(['data', Buffer.alloc(100)]);
+        // only the header is written, the rest of the frame never arrives
+        const { messages, error } = await decode([frame.subarray(0, 5)], 'binary', 50);
+        expect(messages).toEqual([]);
+        expect(error?.name).toBe('ProtocolError');
+        expect(error?.message).toContain('exceeds the limit of 50');
+    });
+
+    test('without a limit', async () => {
+        const frame = encodeFrame(['data', Buffer.alloc(100)]);
+        const { messages } = await decode([frame], 'binary', 0);
+        expect(messages).toHaveLength(1);
+    });
+});
+
+describe('json lines', () => {
+    test('lines split across chunks', async () => {
+        const data = encodeJSON(['header', 'a', 'b']) + encodeJSON(['data', Buffer.from('hi')]);
+        const { messages } = await decode([data.slice(0, 5), data.slice(5, 20), data.slice(20)]);
+        expect(messages).toEqual([
+            ['header', 'a', 'b'],
+            ['data', Buffer.from('hi').toString('base64')]
+        ]);
+    });
+
+    test('a malformed line fails', async () => {
+        const { error } = await decode(['{not json\n']);
+        expect(error?.name).toBe('ProtocolError');
+    });
+
+    test('switch to binary mid-stream after the handshake line', async () => {
+        const data = Buffer.concat([
+            Buffer.from(encodeJSON(['header', 'a', 'b'])),
+            Buffer.from(encodeJSON(['protocol', 'binary', 1])),
+            encodeFrame(['data', Buffer.from('raw')]),
+            encodeFrame(['end-body'])
+        ]);
+        const { messages, decoder } = await decode([data]);
+        expect(decoder.protocol).toBe('binary');
+        expect(messages.map((message) => message[0])).toEqual(['header', 'protocol', 'data', 'end-body']);
+        expect(Buffer.from(messages[2][1] as Uint8Array).toString()).toBe('raw');
+    });
+
+    test('the handshake of another version does not switch', async () => {
+        const { decoder } = await decode([encodeJSON(['protocol', 'binary', 999])]);
+        expect(decoder.protocol).toBe('json');
+    });
+});
@@ -0,0 +1,307 @@
+import { Writable } from 'stream';
+import { ProtocolError, type ErrorCode } from './errors';
+
+/**
+ * Version of the binary framing, bumped on any incompatible change of the frame layout.
+ */
+export const PROTOCOL_VERSION = 1;
+
+export type Protocol = 'json' | 'binary';
+
+export type MessageParam = string | number | Uint8Array;
+
+export type Message = [cmd: string, ...params: MessageParam[]];
+
+export type Writer = (data: Message) => Promise<void>;
+
+/**
+ * Messages sent by the bridge to `render`, body chunks are base64 in the json protocol.
+ */
+export type RequestMessage =
+    | [cmd: 'protocol', protocol: Protocol, version: number]
+    | [cmd: 'header', name: string, value: string]
+    | [cmd: 'start-body']
+    | [cmd: 'data', chunk: Uint8Array | string]
+    | [cmd: 'end-body']
+    | [cmd: 'abort'];
+
+/**
+ * Messages written by `render` in response, `log` may follow `end-body`.
+ */
+export type ResponseMessage =
+    | [cmd: 'protocol', protocol: Protocol, version: number]
+    | [cmd: 'status', status: number, statusText: string]
+    | [cmd: 'header', name: string, value: string]
+    | [cmd: 'start-body']
+    | [cmd: 'data', chunk: Uint8Array | string]
+    | [cmd: 'end-body']
+    | [cmd: 'error', code: ErrorCode, message: string]
+    | [cmd: 'log', line: string];
+
+export type ResponseWriter = (message: ResponseMessage) => Promise<void>;
+
+/**
+ * Frame types of the binary protocol, the index is the type byte of the frame.
+ */
+const FRAME_TYPES = [
+    '',
+    'protocol',
+    'request',
+    'header',
+    'start-body',
+    'data',
+    'end-body',
+    'abort',
+    'status',
+    'draining',
+    'error',
+    'log'
+];
+
+type ParamType = 'string' | 'number' | 'bytes' | 'optional';
+
+/**
+ * Parameters of the commands sent by the bridge.
+ */
+const COMMANDS: Record<string, ParamType[]> = {
+    protocol: ['string', 'number'],
+    request: ['string', 'string', 'optional'],
+    header: ['string', 'string'],
+    'start-body': [],
+    data: ['bytes'],
+    'end-body': [],
+    abort: []
+};
+
+export const TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+const FIELD_STRING = 0;
+const FIELD_NUMBER = 1;
+const FIELD_BYTES = 2;
+
+const FRAME_HEADER_LEN = 5;
+const FIELD_HEADER_LEN = 5;
+
+const LF = '\n'.charCodeAt(0);
+
+/**
+ * Decode a parameter carrying body bytes, which is base64 encoded in the json protocol.
+ */
+export function toBytes(param: MessageParam): Uint8Array {
+    if (typeof param === 'string') return Buffer.from(param, 'base64');
+    if (typeof param === 'number') return Buffer.from(`${param}`);
+    return param;
+}
+
+/**
+ * Check if a message is the handshake to switch to the binary protocol.
+ */
+export function isBinaryHandshake([cmd, protocol, version]: Message) {
+    return cmd === 'protocol' && protocol === 'binary' && version === PROTOCOL_VERSION;
+}
+
+/**
+ * Validate a command sent by the bridge, the request id is expected as the first
+ * parameter when tagged.
+ */
+export function validateMessage([cmd, ...params]: Message, tagged = false) {
+    const types = COMMANDS[cmd];
+    if (!types) {
+        throw new ProtocolError(`Unknown command: ${cmd}`);
+    }
+    if (tagged && cmd !== 'protocol') {
+        const id = params.shift();
+        if (typeof id !== 'string' && typeof id !== 'number') {
+            throw new ProtocolError(`Invalid request id for ${cmd}: ${id}`);
+        }
+    }
+    if (params.length > types.length) {
+        throw new ProtocolError(`Too many parameters for ${cmd}`);
+    }
+    for (let i = 0; i < types.length; i++) {
+        const param = params[i];
+        const valid =
+            types[i] === 'optional'
+                ? param === undefined || param === null || typeof param === 'string'
+                : types[i] === 'bytes'
+                  ? typeof param === 'string' || param instanceof Uint8Array
+                  : typeof param === types[i];
+        if (!valid) throw new ProtocolError(`Invalid parameter ${i} for ${cmd}`);
+    }
+    if (cmd === 'header' && !TOKEN.test(params[0] as string)) {
+        throw new ProtocolError(`Invalid header name: ${params[0]}`);
+    }
+}
+
+export function encodeJSON(data: Message) {
+    return (
+        JSON.stringify(
+            data.map((param) => (param instanceof Uint8Array ? Buffer.from(param).toString('base64') : param))
+        ) + '\n'
+    );
+}
+
+export function encodeFrame([cmd, ...params]: Message) {
+    const type = FRAME_TYPES.indexOf(cmd);
+    if (type <= 0) throw new Error(`Unknown frame type: ${cmd}`);
+    const fields: Buffer[] = [];
+    let length = 0;
+    for (const param of params) {
+        const header = Buffer.alloc(FIELD_HEADER_LEN);
+        let value: Buffer;
+        if (typeof param === 'string') {
+            header.writeUInt8(FIELD_STRING, 0);
+            value = Buffer.from(param, 'utf8');
+        } else if (typeof param === 'number') {
+            header.writeUInt8(FIELD_NUMBER, 0);
+            value = Buffer.alloc(8);
+            value.writeDoubleBE(param, 0);
+        } else {
+            header.writeUInt8(FIELD_BYTES, 0);
+            value = Buffer.from(param.buffer, param.byteOffset, param.byteLength);
+        }
+        header.writeUInt32BE(value.length, 1);
+        fields.push(header, value);
+        length += FIELD_HEADER_LEN + value.length;
+    }
+    const header = Buffer.alloc(FRAME_HEADER_LEN);
+    header.writeUInt8(type, 0);
+    header.writeUInt32BE(length, 1);
+    return Buffer.concat([header, ...fields], FRAME_HEADER_LEN + length);
+}
+
+function decodeFrame(frame: Buffer): Message {
+    const cmd = FRAME_TYPES[frame.readUInt8(0)];
+    if (!cmd) throw new ProtocolError(`Unknown frame type: ${frame.readUInt8(0)}`);
+    const message: Message = [cmd];
+    let offset = FRAME_HEADER_LEN;
+    while (offset < frame.length) {
+        const kind = frame.readUInt8(offset);
+        const length = frame.readUInt32BE(offset + 1);
+        if (offset + FIELD_HEADER_LEN + length > frame.length) {
+            throw new ProtocolError(`Field exceeds the frame of ${cmd}`);
+        }
+        const value = frame.subarray(offset + FIELD_HEADER_LEN, offset + FIELD_HEADER_LEN + length);
+        offset += FIELD_HEADER_LEN + length;
+        switch (kind) {
+            case FIELD_STRING:
+                message.push(value.toString('utf8'));
+                break;
+            case FIELD_NUMBER:
+                message.push(value.readDoubleBE(0));
+                break;
+            case FIELD_BYTES:
+                message.push(value);
+                break;
+            default:
+                throw new ProtocolError(`Unknown field type: ${kind}`);
+        }
+    }
+    return message;
+}
+
+/**
+ * Decode messages from a byte stream, starts with the given protocol and switches
+ * from json to binary right after a binary handshake line.
+ */
+export class MessageDecoder extends Writable {
+    #protocol: Protocol;
+    #maxFrameSize: number;
+    #chunks: Buffer[] = [];
+    #length = 0;
+    #scanned = 0;
+
+    /**
+     * @param maxFrameSize Largest binary frame accepted, 0 for unlimited.
+     */
+    constructor(protocol: Protocol = 'json', maxFrameSize = 0) {
+        super();
+        this.#protocol = protocol;
+        this.#maxFrameSize = maxFrameSize;
+    }
+
+    get protocol() {
+        return this.#protocol;
+    }
+
+    _write(chunk: any, _: BufferEncoding, callback: (error?: Error | null | undefined) => void): void {
+        const buff = Buffer.from(chunk);
+        this.#chunks.push(buff);
+        this.#length += buff.length;
+        try {
+            while (this.#protocol === 'json' ? this.#nextLine() : this.#nextFrame());
+        } catch (err) {
+            return callback(err as Error);
+        }
+        callback();
+    }
+
+    #take(length: number) {
+        const all = this.#chunks.length === 1 ? this.#chunks[0] : Buffer.concat(this.#chunks, this.#length);
+        const rest = all.subarray(length);
+        this.#chunks = rest.length ? [rest] : [];
+        this.#length = rest.length;
+        this.#scanned = 0;
+        return all.subarray(0, length);
+    }
+
+    #nextLine() {
+        // chunks are only concatenated once a complete line is buffered
+        let offset = 0;
+        let lf = -1;
+        for (const chunk of this.#chunks) {
+            if (offset + chunk.length > this.#scanned) {
+                const found = chunk.indexOf(LF, Math.max(0, this.#scanned - offset));
+                if (found >= 0) {
+                    lf = offset + found;
+                    break;
+                }
+            }
+            offset += chunk.length;
+        }
+        if (lf < 0) {
+            this.#scanned = this.#length;
+            return false;
+        }
+        const line = this.#take(lf + 1).subarray(0, lf);
+        if (!line.length) return true;
+        let message: Message;
+        try {
+            message = JSON.parse(line.toString('utf8'));
+        } catch {
+            throw new ProtocolError(`Malformed message: ${line.toString('utf8')}`);
+        }
+        if (!Array.isArray(message) || typeof message[0] !== 'string') {
+            throw new ProtocolError(`Invalid message: ${line.toString('utf8')}`);
+        }
+        if (isBinaryHandshake(message)) this.#protocol = 'binary';
+        this.emit('message', message);
+        return true;
+    }
+
+    #nextFrame() {
+        if (this.#length < FRAME_HEADER_LEN) return false;
+        if (this.#chunks[0].length < FRAME_HEADER_LEN) this.#take(0);
+        const length = FRAME_HEADER_LEN + this.#chunks[0].readUInt32BE(1);
+        // rejected before it is buffered
+        if (this.#maxFrameSize > 0 && length > this.#maxFrameSize) {
+            throw new ProtocolError(`Frame of ${length} bytes exceeds the limit of ${this.#maxFrameSize}`);
+        }
+        if (this.#length < length) return false;
+        this.emit('message', decodeFrame(this.#take(length)));
+        return true;
+    }
+}
+
+/**
+ * Create a writer which encodes messages with the given protocol.
+ */
+export function createWriter(protocol: Protocol, stream: NodeJS.WritableStream = process.stdout): Writer {
+    return (data) =>
+        new Promise<void>((res, rej) => {
+            stream.write(protocol === 'json' ? encodeJSON(data) : encodeFrame(data), (err) => {
+                if (err) rej(err);
+                else res();
+            });
+        });
+}
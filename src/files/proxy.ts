@@ -0,0 +1,59 @@
+import { env } from './env';
+
+const origin = env('ORIGIN');
+const xffDepth = parseInt(env('XFF_DEPTH', '1'));
+const addressHeader = env('ADDRESS_HEADER', '').toLowerCase();
+const protocolHeader = env('PROTOCOL_HEADER', '').toLowerCase();
+const hostHeader = env('HOST_HEADER', '').toLowerCase();
+const portHeader = env('PORT_HEADER', '').toLowerCase();
+
+/**
+ * Resolve the url of the request from `ORIGIN` or the configured proxy headers,
+ * falls back to the url given by the bridge.
+ */
+export function resolveURL(url: URL, headers: Headers): URL {
+    if (origin) {
+        return new URL(url.pathname + url.search, origin);
+    }
+    if (!protocolHeader && !hostHeader && !portHeader) {
+        return url;
+    }
+    const protocol = (protocolHeader && first(headers.get(protocolHeader))) || url.protocol.slice(0, -1);
+    const host = (hostHeader && first(headers.get(hostHeader))) || url.host;
+    const port = portHeader && first(headers.get(portHeader));
+    return new URL(url.pathname + url.search, `${protocol}://${port ? `${host.replace(/:\d+$/, '')}:${port}` : host}`);
+}
+
+function first(value: string | null) {
+    return value?.split(',')[0].trim();
+}
+
+/**
+ * Get the client address from the configured address header, falls back to the
+ * address given by the bridge.
+ */
+export function clientAddress(headers: Headers, fallback?: string): string {
+    if (addressHeader) {
+        if (!headers.has(addressHeader)) {
+            throw new Error(
+                `Address header was specified with ${ENV_PREFIX + 'ADDRESS_HEADER'}=${addressHeader} but is absent from request`
+            );
+        }
+        const value = headers.get(addressHeader)!;
+        if (addressHeader === 'x-forwarded-for') {
+            const addresses = value.split(',');
+            if (!(xffDepth >= 1)) {
+                throw new Error(`${ENV_PREFIX + 'XFF_DEPTH'} must be a positive integer`);
+            }
+            if (xffDepth > addresses.length) {
+                throw new Error(
+                    `${ENV_PREFIX + 'XFF_DEPTH'} is ${xffDepth}, but only found ${addresses.length} addresses`
+                );
+            }
+            return addresses[addresses.length - xffDepth].trim();
+        }
+        return value;
+    }
+    if (fallback) return fallback;
+    throw new Error('Unable to determine client IP.');
+}
@@ -0,0 +1,44 @@
+import type { Runtime } from '.';
+import { dirname } from 'path';
+import { SYM_BUNDLE } from '../symbols';
+
+/**
+ * Registered by the entry of the `compile` adapter option before the cli is loaded.
+ */
+type Bundle = {
+    executable: boolean;
+
+    /**
+     * Embedded files keyed by their path relative to the base directory.
+     */
+    assets: Record<string, string>;
+};
+
+function bundle(): Bundle | undefined {
+    return (globalThis as any)[SYM_BUNDLE];
+}
+
+export const bun: Runtime = {
+    name: 'bun',
+    get env() {
+        return Bun.env;
+    },
+    get baseDir() {
+        const bundled = bundle();
+        // the path of the sources is inlined when bundled again, use the deployed file instead
+        if (bundled) return dirname(bundled.executable ? process.execPath : Bun.main);
+        return import.meta.dir;
+    },
+    get self() {
+        return bundle()?.executable ? [process.execPath] : [process.execPath, Bun.main];
+    },
+    readFile(path, start, end) {
+        const embedded = bundle()?.assets[path.slice(this.baseDir.length)];
+        const file = Bun.file(embedded ?? path);
+        return (start === undefined ? file : file.slice(start, end === undefined ? undefined : end + 1)).stream();
+    },
+    glob(pattern) {
+        const glob = new Bun.Glob(pattern);
+        return (path) => glob.match(path);
+    }
+};
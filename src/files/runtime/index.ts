@@ -0,0 +1,37 @@
+import { bun } from './bun';
+import { node } from './node';
+
+export type Runtime = {
+    name: 'bun' | 'node';
+
+    /**
+     * Environment variables of the process.
+     */
+    env: Record<string, string | undefined>;
+
+    /**
+     * Directory of the cli entry.
+     */
+    baseDir: string;
+
+    /**
+     * Command to run the cli again in a subprocess.
+     */
+    self: string[];
+
+    /**
+     * Read a file, or the inclusive byte range of it.
+     */
+    readFile(path: string, start?: number, end?: number): ReadableStream<Uint8Array>;
+
+    /**
+     * Compile a glob pattern into a matcher of relative paths.
+     */
+    glob(pattern: string): (path: string) => boolean;
+};
+
+/**
+ * The runtime the cli is built for, `RUNTIME` is defined at build time so the other
+ * implementation is dropped from the bundle.
+ */
+export const runtime: Runtime = RUNTIME === 'bun' ? bun : node;
@@ -0,0 +1,91 @@
+import type { Runtime } from '.';
+import { createReadStream } from 'fs';
+import { dirname } from 'path';
+import { Readable } from 'stream';
+import { fileURLToPath } from 'url';
+
+export const node: Runtime = {
+    name: 'node',
+    get env() {
+        return process.env;
+    },
+    get baseDir() {
+        return dirname(fileURLToPath(import.meta.url));
+    },
+    get self() {
+        return [process.execPath, process.argv[1]];
+    },
+    readFile(path, start, end) {
+        return Readable.toWeb(createReadStream(path, { start, end })) as any;
+    },
+    glob(pattern) {
+        const regex = globToRegExp(pattern);
+        return (path) => regex.test(path);
+    }
+};
+
+/**
+ * Translate the glob syntax supported by `Bun.Glob` (`*`, `**`, `?`, `[...]`, `{a,b}`)
+ * into a regular expression.
+ */
+function globToRegExp(pattern: string) {
+    let source = '';
+    let braces = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        switch (char) {
+            case '\\':
+                source += '\\' + (pattern[++i] ?? '\\');
+                break;
+            case '*':
+                if (pattern[i + 1] === '*') {
+                    i++;
+                    if (pattern[i + 1] === '/') {
+                        i++;
+                        source += '(?:.*/)?';
+                    } else {
+                        source += '.*';
+                    }
+                } else {
+                    source += '[^/]*';
+                }
+                break;
+            case '?':
+                source += '[^/]';
+                break;
+            case '[': {
+                const close = pattern.indexOf(']', i + 2);
+                if (close < 0) {
+                    source += '\\[';
+                    break;
+                }
+                const set = pattern
+                    .slice(i + 1, close)
+                    .replace(/^!/, '^')
+                    .replace(/\\/g, '\\\\');
+                source += `[${set}]`;
+                i = close;
+                break;
+            }
+            case '{':
+                braces++;
+                source += '(?:';
+                break;
+            case '}':
+                if (braces) {
+                    braces--;
+                    source += ')';
+                } else {
+                    source += '\\}';
+                }
+                break;
+            case ',':
+                source += braces ? '|' : ',';
+                break;
+            default:
+                source += char.replace(/[.+^$()|]/g, '\\$&');
+        }
+    }
+    // unterminated braces are closed at the end of the pattern
+    return new RegExp(`^${source}${')'.repeat(braces)}$`);
+}
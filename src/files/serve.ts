@@ -0,0 +1,185 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { spawn } from 'child_process';
+import { installRequestContext } from './context';
+import { exchange, isMethod, type HandleOptions } from './handle';
+import {
+    createWriter,
+    MessageDecoder,
+    toBytes,
+    type Message,
+    type ResponseMessage,
+    type ResponseWriter
+} from './protocol';
+import { runtime } from './runtime';
+import { exitProcess } from './app';
+import { printLine } from './log';
+
+export type ServeOptions = {
+    port: number;
+    host: string;
+    static: boolean;
+
+    /**
+     * Handle every request in a spawned `render` process instead of in this process.
+     */
+    spawn: boolean;
+
+    /**
+     * Log the protocol messages of every request to stderr.
+     */
+    trace: boolean;
+};
+
+/**
+ * Serve http locally for testing the build, every request is translated into the
+ * messages of the `render` protocol and the response messages back into http.
+ */
+export function serveHTTP(options: ServeOptions) {
+    installRequestContext();
+    let nextId = 0;
+    const server = createServer((req, res) => {
+        const id = ++nextId;
+        const trace = (direction: '>' | '<', message: Message) => {
+            if (!options.trace) return;
+            const [cmd, ...params] = message;
+            const printable = cmd === 'data' ? [cmd, `<${toBytes(params[0]).byteLength} bytes>`] : message;
+            console.error(`[${id}] ${direction} ${JSON.stringify(printable)}`);
+        };
+        const method = (req.method ?? 'GET').toUpperCase();
+        if (!isMethod(method)) {
+            res.writeHead(400, { 'content-type': 'text/plain' }).end('400 Bad Request');
+            return;
+        }
+        const handleOptions: HandleOptions = {
+            url: new URL(req.url ?? '/', `http://${req.headers.host ?? `${options.host}:${options.port}`}`),
+            method,
+            clientIP: req.socket.remoteAddress,
+            static: options.static
+        };
+        const respond = responder(res, (message) => trace('<', message));
+        const send = options.spawn ? spawnRender(handleOptions, respond, res) : inProcess(handleOptions, respond);
+        forward(req, res, (message) => {
+            trace('>', message);
+            send(message);
+        });
+    });
+    server.on('error', (err) => {
+        console.error(err);
+        exitProcess(1);
+    });
+    server.listen(options.port, options.host, () => {
+        printLine(`Listening on http://${options.host}:${options.port}`);
+    });
+    const shutdown = () => server.close(() => exitProcess(0));
+    process.on('SIGTERM', shutdown);
+    process.on('SIGINT', shutdown);
+}
+
+/**
+ * Translate the http request into the message sequence a bridge would send.
+ */
+function forward(req: IncomingMessage, res: ServerResponse, send: (message: Message) => void) {
+    for (let i = 0; i < req.rawHeaders.length; i += 2) {
+        send(['header', req.rawHeaders[i], req.rawHeaders[i + 1]]);
+    }
+    send(['start-body']);
+    req.on('data', (chunk: Buffer) => send(['data', chunk]));
+    req.on('end', () => send(['end-body']));
+    res.on('close', () => {
+        if (!res.writableFinished) send(['abort']);
+    });
+}
+
+/**
+ * Write the response messages to the http response.
+ */
+function responder(res: ServerResponse, trace: (message: Message) => void): ResponseWriter {
+    let status = 200;
+    let statusText = '';
+    const headers: Record<string, string[]> = {};
+    return (message) => {
+        trace(message);
+        switch (message[0]) {
+            case 'status':
+                status = message[1];
+                statusText = message[2];
+                break;
+            case 'header':
+                (headers[message[1]] ??= []).push(message[2]);
+                break;
+            case 'start-body':
+                if (statusText) res.writeHead(status, statusText, headers);
+                else res.writeHead(status, headers);
+                break;
+            case 'data': {
+                const chunk = toBytes(message[1]);
+                return new Promise<void>((resolve) => res.write(chunk, () => resolve()));
+            }
+            case 'end-body':
+                res.end();
+                break;
+            case 'error':
+                // a fallback response follows unless the body is already started
+                if (res.headersSent) res.destroy();
+                break;
+            case 'log':
+                printLine(message[1]);
+                break;
+        }
+        return Promise.resolve();
+    };
+}
+
+function inProcess(options: HandleOptions, respond: ResponseWriter) {
+    const ex = exchange(options, respond);
+    return ([cmd, ...params]: Message) => {
+        try {
+            ex.receive(cmd, params);
+        } catch (err) {
+            ex.fail(400, 'protocol_error', err);
+        }
+    };
+}
+
+/**
+ * Run the request through `render` in a subprocess, so the real lifecycle of a
+ * request including `waitUntil` and the exit of the process is exercised.
+ */
+function spawnRender(options: HandleOptions, respond: ResponseWriter, res: ServerResponse) {
+    const [command, ...args] = runtime.self;
+    const child = spawn(
+        command,
+        [
+            ...args,
+            'render',
+            '--url',
+            options.url.toString(),
+            '--method',
+            options.method,
+            '--client-ip',
+            options.clientIP ?? '',
+            ...(options.static ? [] : ['--no-static'])
+        ],
+        { stdio: ['pipe', 'pipe', 'inherit'] }
+    );
+    const decoder = new MessageDecoder('json');
+    decoder.on('message', (message: ResponseMessage) => respond(message));
+    decoder.on('error', (err) => {
+        console.error(err);
+        res.destroy();
+    });
+    child.stdout.pipe(decoder);
+    child.stdin.on('error', () => {});
+    child.on('close', (code) => {
+        if (code) console.error(`render exited with code ${code}`);
+        if (res.headersSent) {
+            if (!res.writableEnded) res.destroy();
+        } else {
+            res.writeHead(502, { 'content-type': 'text/plain' }).end('502 Bad Gateway');
+        }
+    });
+    const write = createWriter('json', child.stdin);
+    return (message: Message) => {
+        write(message).catch(() => {});
+    };
+}
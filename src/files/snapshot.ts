@@ -0,0 +1,182 @@
+import type { Server } from 'SERVER';
+import { staticFiles } from 'MANIFEST';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, normalize, sep } from 'path';
+import { compress_file, supportsZstd } from '../compress';
+import { staticFile, type StaticFiles } from '../static';
+import { SNAPSHOT_MANIFEST } from '../release';
+import { SYM_BASE_PATH, SYM_SERVER } from './symbols';
+import { errorMessage } from './errors';
+import { printLine } from './log';
+
+export type SnapshotOptions = {
+    /**
+     * URLs or paths relative to the origin to render.
+     */
+    urls: string[];
+
+    origin: string;
+
+    /**
+     * Sitemap to read more URLs from, a file or a path rendered by the app.
+     */
+    sitemap?: string;
+
+    /**
+     * Follow links to pages of the same origin.
+     */
+    crawl: boolean;
+
+    /**
+     * Stop after rendering this many pages, 0 for unlimited.
+     */
+    limit: number;
+
+    concurrency: number;
+
+    /**
+     * Statuses of the responses to write.
+     */
+    statuses: Set<number>;
+
+    /**
+     * Pre-compress the written files with the encodings used by the build.
+     */
+    precompress: boolean;
+};
+
+const compressible = /\.(html|js|json|css|svg|xml|wasm)$/;
+
+let snapshotFiles: StaticFiles | undefined;
+
+/**
+ * Prerendered files of the build together with the snapshotted ones.
+ */
+export function prerenderedFiles(): StaticFiles {
+    if (!snapshotFiles) {
+        const file = join((globalThis as any)[SYM_BASE_PATH], SNAPSHOT_MANIFEST);
+        snapshotFiles = existsSync(file)
+            ? { ...staticFiles.prerendered, ...JSON.parse(readFileSync(file, 'utf8')) }
+            : staticFiles.prerendered;
+    }
+    return snapshotFiles!;
+}
+
+/**
+ * The file `writePrerendered` would write a response of the path to.
+ */
+function outputPath(pathname: string, type: string | null) {
+    const path = normalize(decodeURIComponent(pathname)).replaceAll(sep, '/');
+    if (!path.startsWith('/') || path.split('/').includes('..')) return undefined;
+    if (type?.startsWith('text/html')) {
+        return path.endsWith('/') ? `${path}index.html` : `${path}.html`;
+    }
+    return path.endsWith('/') ? undefined : path;
+}
+
+function links(html: string, base: URL) {
+    const found: URL[] = [];
+    for (const match of html.matchAll(/<a\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi)) {
+        const href = (match[1] ?? match[2] ?? match[3]).replaceAll('&amp;', '&');
+        if (!URL.canParse(href, base.href)) continue;
+        const url = new URL(href, base);
+        url.hash = '';
+        if (url.origin === base.origin) found.push(url);
+    }
+    return found;
+}
+
+async function sitemapURLs(sitemap: string, origin: string, render: (url: URL) => Promise<Response>) {
+    let xml: string;
+    if (existsSync(sitemap)) {
+        xml = readFileSync(sitemap, 'utf8');
+    } else {
+        const res = await render(new URL(sitemap, origin));
+        if (!res.ok) throw new Error(`Failed to read the sitemap ${sitemap}: ${res.status}`);
+        xml = await res.text();
+    }
+    return [...xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/g)].map((match) => match[1].replaceAll('&amp;', '&'));
+}
+
+/**
+ * Render pages with the server of the build and write them into `prerendered/`, so
+ * they are served as static files afterwards.
+ */
+export async function snapshot(options: SnapshotOptions) {
+    const base = (globalThis as any)[SYM_BASE_PATH] as string;
+    const server = (globalThis as any)[SYM_SERVER] as Server;
+    const render = (url: URL) =>
+        server.respond(new Request(url), {
+            getClientAddress() {
+                return '127.0.0.1';
+            }
+        });
+    const encodings = new Set(
+        [staticFiles.client, staticFiles.prerendered]
+            .flatMap((files: StaticFiles) => Object.values(files))
+            .flatMap((file) => Object.keys(file.encodings))
+    );
+
+    const urls = [...options.urls];
+    if (options.sitemap) urls.push(...(await sitemapURLs(options.sitemap, options.origin, render)));
+    const queue = urls.map((url) => new URL(url, options.origin));
+    const seen = new Set(queue.map((url) => url.href));
+    const written: StaticFiles = {};
+    let rendered = 0;
+    let failed = 0;
+
+    async function next(url: URL) {
+        const res = await render(url);
+        const file = outputPath(url.pathname, res.headers.get('content-type'));
+        if (!options.statuses.has(res.status) || !file) {
+            await res.body?.cancel();
+            printLine(`${res.status} ${url.pathname} skipped`);
+            return;
+        }
+        const body = Buffer.from(await res.arrayBuffer());
+        const path = join(base, 'prerendered', file);
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, body);
+        if (options.precompress && compressible.test(file)) {
+            await Promise.all([
+                encodings.has('gzip') && compress_file(path, 'gzip'),
+                encodings.has('br') && compress_file(path, 'brotli'),
+                encodings.has('zstd') && supportsZstd() && compress_file(path, 'zstd')
+            ]);
+        }
+        written[file] = await staticFile(path);
+        printLine(`${res.status} ${url.pathname} -> prerendered${file}`);
+        if (options.crawl && file.endsWith('.html')) {
+            for (const link of links(body.toString('utf8'), url)) {
+                if (seen.has(link.href)) continue;
+                seen.add(link.href);
+                queue.push(link);
+            }
+        }
+    }
+
+    // links found while rendering are queued, so keep going until nothing is running
+    const running = new Set<Promise<void>>();
+    while (queue.length || running.size) {
+        if (queue.length && running.size < options.concurrency && (options.limit <= 0 || rendered < options.limit)) {
+            const url = queue.shift()!;
+            rendered++;
+            const task = next(url)
+                .catch((err) => {
+                    failed++;
+                    console.error(`Failed to snapshot ${url.pathname}: ${errorMessage(err)}`);
+                })
+                .finally(() => running.delete(task));
+            running.add(task);
+            continue;
+        }
+        if (!running.size) break;
+        await Promise.race(running);
+    }
+
+    const manifest = join(base, SNAPSHOT_MANIFEST);
+    const previous = existsSync(manifest) ? JSON.parse(readFileSync(manifest, 'utf8')) : {};
+    writeFileSync(manifest, JSON.stringify({ ...previous, ...written }));
+    printLine(`${Object.keys(written).length} written, ${failed} failed`);
+    if (failed) process.exitCode = 1;
+}
@@ -1,3 +1,4 @@
 export const SYM_VERCELCONTEXT: unique symbol = Symbol.for('@vercel/request-context');
 export const SYM_BASE_PATH: unique symbol = Symbol('base path');
 export const SYM_SERVER: unique symbol = Symbol('sveltekit-server');
+export const SYM_BUNDLE: unique symbol = Symbol.for('@eslym/sveltekit-adapter-cli/bundle');
@@ -0,0 +1,24 @@
+import { mock } from 'bun:test';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SYM_BASE_PATH } from './symbols';
+
+/**
+ * Stand-ins for what the adapter provides to the cli at build time, so the modules of the
+ * cli can be tested. The app is put in place by the tests through `SYM_SERVER`.
+ */
+Object.assign(globalThis, { RUNTIME: 'bun', ENV_PREFIX: '' });
+(globalThis as any)[SYM_BASE_PATH] = join(tmpdir(), 'adapter-cli-test');
+
+mock.module('SERVER', () => ({
+    Server: class {},
+    get_hooks: async () => ({})
+}));
+
+mock.module('MANIFEST', () => ({
+    manifest: { _: { routes: [] } },
+    prerendered: new Set(),
+    staticFiles: { client: {}, prerendered: {} },
+    rules: { headers: [], redirects: [] },
+    build: {}
+}));
@@ -0,0 +1,169 @@
+import { installRequestContext } from './context';
+import { exchange, isMethod, redirectConsole, writeResponse, type Exchange } from './handle';
+import { errorResponse, maxFrameSize } from './limits';
+import {
+    createWriter,
+    isBinaryHandshake,
+    MessageDecoder,
+    PROTOCOL_VERSION,
+    type Message,
+    type MessageParam,
+    type Protocol,
+    type Writer,
+    validateMessage
+} from './protocol';
+import { EXIT_PROTOCOL_ERROR, errorMessage } from './errors';
+import { exitProcess } from './app';
+
+export type WorkerOptions = {
+    static: boolean;
+
+    protocol: Protocol;
+
+    /**
+     * Stop accepting requests and exit after this many requests, 0 for unlimited.
+     */
+    maxRequests: number;
+
+    /**
+     * Exit after being idle for this many milliseconds, 0 to never exit.
+     */
+    idleTimeout: number;
+};
+
+type RequestId = string | number;
+
+/**
+ * Serve many concurrent requests from one process, every message is tagged with
+ * the request id as its second element:
+ *
+ * - `["request", id, method, url, clientIP]` starts a new request
+ * - `["header", id, name, value]`, `["start-body", id]`, `["data", id, base64]`,
+ *   `["end-body", id]` and `["abort", id]` work the same as with `render`
+ *
+ * Responses are interleaved the same way, and `["draining"]` is written once the
+ * worker stops accepting new requests so the bridge can spawn a replacement. A
+ * message which cannot be attributed to a request is reported with an empty id
+ * before the worker exits, a `request` reusing the id of a pending one is rejected with
+ * an `error` message of that id. Once stdin ends the incomplete requests fail.
+ */
+export function worker(options: WorkerOptions) {
+    redirectConsole();
+    installRequestContext();
+    const exchanges = new Map<RequestId, Exchange>();
+    const decoder = new MessageDecoder(options.protocol, maxFrameSize);
+    let writeOut = createWriter(options.protocol);
+    let served = 0;
+    let draining = false;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    function tagged(id: RequestId): Writer {
+        return ([cmd, ...params]) => writeOut([cmd, id, ...params]);
+    }
+
+    function reject(id: RequestId, status: number) {
+        writeResponse(errorResponse(status), false, tagged(id)).catch(console.error);
+    }
+
+    function drain() {
+        if (draining) return;
+        draining = true;
+        clearTimeout(idleTimer);
+        writeOut(['draining'])
+            .catch(console.error)
+            .finally(() => exitIfDrained());
+    }
+
+    function exitIfDrained() {
+        if (draining && exchanges.size === 0) exitProcess(0);
+    }
+
+    function waitIdle() {
+        clearTimeout(idleTimer);
+        if (draining || exchanges.size || options.idleTimeout <= 0) return;
+        idleTimer = setTimeout(drain, options.idleTimeout);
+    }
+
+    function start(id: RequestId, params: MessageParam[]) {
+        if (draining) {
+            return reject(id, 503);
+        }
+        if (exchanges.has(id)) {
+            const message = `Duplicated request id: ${id}`;
+            console.error(message);
+            writeOut(['error', id, 'protocol_error', message]).catch(console.error);
+            return;
+        }
+        const [method, url, clientIP] = params;
+        if (typeof method !== 'string' || !isMethod(method.toUpperCase())) {
+            return reject(id, 400);
+        }
+        if (typeof url !== 'string' || !URL.canParse(url)) {
+            return reject(id, 400);
+        }
+        const ex = exchange(
+            {
+                url: new URL(url),
+                method: method.toUpperCase(),
+                clientIP: clientIP ? `${clientIP}` : undefined,
+                static: options.static
+            },
+            tagged(id)
+        );
+        exchanges.set(id, ex);
+        clearTimeout(idleTimer);
+        ex.done.then(() => {
+            exchanges.delete(id);
+            exitIfDrained();
+            waitIdle();
+        });
+        served++;
+        if (options.maxRequests > 0 && served >= options.maxRequests) {
+            drain();
+        }
+    }
+
+    function fatal(err: unknown) {
+        console.error(err);
+        process.stdin.unpipe(decoder);
+        writeOut(['error', '', 'protocol_error', errorMessage(err)])
+            .catch(console.error)
+            .finally(() => exitProcess(EXIT_PROTOCOL_ERROR));
+    }
+
+    decoder.on('error', fatal);
+    decoder.on('message', (message: Message) => {
+        try {
+            validateMessage(message, true);
+        } catch (err) {
+            return fatal(err);
+        }
+        if (isBinaryHandshake(message)) {
+            writeOut(['protocol', 'binary', PROTOCOL_VERSION]);
+            writeOut = createWriter('binary');
+            return;
+        }
+        const [cmd, id, ...params] = message as [string, RequestId, ...MessageParam[]];
+        if (cmd === 'request') {
+            start(id, params);
+            return;
+        }
+        const ex = exchanges.get(id);
+        try {
+            ex?.receive(cmd, params);
+        } catch (err) {
+            ex?.fail(400, 'protocol_error', err);
+        }
+    });
+
+    process.stdin.on('end', () => {
+        // the requests still waiting for the bridge would never complete
+        for (const ex of exchanges.values()) ex.close();
+        drain();
+    });
+    process.on('SIGTERM', drain);
+    process.on('SIGINT', drain);
+
+    process.stdin.pipe(decoder);
+    waitIdle();
+}
@@ -1,30 +1,28 @@
 import type { Adapter, Builder } from '@sveltejs/kit';
-import { name as adapterName } from '../package.json';
+import { name as adapterName, version as adapterVersion } from '../package.json';
 import { fileURLToPath } from 'url';
 import zlib from 'zlib';
-import { createReadStream, createWriteStream, existsSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { readFileSync, rmSync, writeFileSync } from 'fs';
 import glob from 'tiny-glob';
-import { pipeline } from 'stream/promises';
 import { rollup } from 'rollup';
 import { nodeResolve } from '@rollup/plugin-node-resolve';
 import commonjs from '@rollup/plugin-commonjs';
 import json from '@rollup/plugin-json';
+import { writeBridge, type BridgeOptions } from './bridge';
+import { compileCLI, type BuildArtifacts, type CompileOptions } from './compile';
+import { staticManifest } from './static';
+import { readRules } from './rules';
+import { compress, supportsZstd, type PreCompressOptions } from './compress';
+import { kitVersion, precompressFormats, type BuildInfo } from './info';
+import { activateRelease, validateReleaseId, writeReleaseManifest, type ReleaseOptions } from './release';
+import { writeArchive } from './archive';
+import { externalPattern, importedPackages, minify, serverExternals, writeProductionPackage } from './bundle';
+
+export { renderRequest, type RenderOptions } from './client';
+export type { RequestMessage, ResponseMessage } from './files/protocol';
 
 const files = fileURLToPath(new URL('./files', import.meta.url));
 
-type PreCompressOptions = {
-    /**
-     * @default false;
-     */
-    [k in 'gzip' | 'brotli']?: boolean;
-} & {
-    /**
-     * Extensions to pre-compress
-     * @default ['html','js','json','css','svg','xml','wasm']
-     */
-    files?: string[];
-};
-
 type AdapterOptions = {
     /**
      * Output path
@@ -32,61 +30,165 @@ type AdapterOptions = {
      */
     out?: string;
 
+    /**
+     * Runtime the generated cli runs on.
+     * @default 'bun'
+     */
+    runtime?: Runtime;
+
     /**
      * Transpile server code with bun transpiler after build. (will add `// @bun` tag to first line)
      * @default false
      */
     transpileBun?: boolean;
 
+    /**
+     * Bundle the cli and the server into a standalone executable or a bytecode cached bundle
+     * with bun, for shorter cold starts. Requires `runtime: 'bun'` and building with bun.
+     * @default false
+     */
+    compile?: boolean | CompileOptions;
+
+    /**
+     * Bundle the production dependencies into the server instead of installing them on the host,
+     * `true` for all of them or the names of some.
+     * @default false
+     */
+    bundleDependencies?: boolean | string[];
+
+    /**
+     * More packages to leave out of the server bundle, they have to be installed on the host.
+     * @default []
+     */
+    external?: string[];
+
+    /**
+     * Minify the server bundle with esbuild.
+     * @default false
+     */
+    minify?: boolean;
+
     /**
      * Enable pre-compress
      * @default false
      */
     precompress?: boolean | PreCompressOptions;
 
+    /**
+     * Prefix of the environment variables read by the cli, like `ORIGIN` or `ADDRESS_HEADER`,
+     * to avoid conflicts with the environment variables of the app.
+     * @default ''
+     */
+    envPrefix?: string;
+
+    /**
+     * Environment variables the app needs at runtime, checked by the `doctor` command.
+     * @default []
+     */
+    requiredEnv?: string[];
+
+    /**
+     * Emit bridge scripts which forward requests from the web server to the cli.
+     * @default {}
+     */
+    bridge?: BridgeOptions;
+
+    /**
+     * Write every build into `releases/<id>/` of the output directory, named after `kit.version.name`,
+     * with a `current` symbolic link to the active one which the bridge runs.
+     * @default false
+     */
+    release?: boolean | ReleaseOptions;
+
     /**
      * Run after build.
      * @param opts adapter options
+     * @param artifacts files emitted for the cli
      */
-    postBuild?: (opts: AdapterOptions, builder: Builder) => void | Promise<void>;
+    postBuild?: (opts: AdapterOptions, builder: Builder, artifacts: BuildArtifacts) => void | Promise<void>;
 };
 
+type Runtime = 'bun' | 'node';
+
 const isBun = 'Bun' in globalThis;
 
+/**
+ * The runtime running the build.
+ */
+const buildRuntime = isBun ? `Bun v${Bun.version}` : `Node.js v${process.versions.node}`;
+
+function supportsBrotli() {
+    if (isBun) return Bun.semver.order(Bun.version, '1.1.8') >= 0;
+    return typeof zlib.createBrotliCompress === 'function';
+}
+
 export default function adapter(userOpts: AdapterOptions = {}): Adapter {
     const opts: Required<AdapterOptions> = {
         out: './build',
+        runtime: 'bun',
         transpileBun: false,
+        compile: false,
+        bundleDependencies: false,
+        external: [],
+        minify: false,
         precompress: false,
+        envPrefix: '',
+        requiredEnv: [],
+        release: false,
+        bridge: {},
         postBuild: () => {},
         ...userOpts
     };
     return {
         name: adapterName,
         async adapt(builder) {
-            if (isBun) {
-                if (Bun.semver.order(Bun.version, '1.1.8') < 0) {
-                    if (opts.precompress === true) {
-                        builder.log.warn(
-                            `Bun v${Bun.version} does not support brotli, please use newer version of bun or nodejs to build, otherwise brotli will be ignore.`
-                        );
-                        opts.precompress = {
-                            gzip: true,
-                            brotli: false
-                        };
-                    } else if (typeof opts.precompress === 'object' && opts.precompress) {
-                        throw new Error(
-                            `Bun v${Bun.version} does not support brotli, please use newer version of bun or nodejs to build.`
-                        );
-                    }
+            if (opts.runtime !== 'bun' && opts.runtime !== 'node') {
+                throw new Error(`Unsupported runtime: ${opts.runtime}, expected 'bun' or 'node'.`);
+            }
+            if (!supportsBrotli()) {
+                if (opts.precompress === true) {
+                    builder.log.warn(
+                        `${buildRuntime} does not support brotli, please use newer version of bun or nodejs to build, otherwise brotli will be ignore.`
+                    );
+                    opts.precompress = {
+                        gzip: true,
+                        brotli: false
+                    };
+                } else if (typeof opts.precompress === 'object' && opts.precompress.brotli) {
+                    throw new Error(
+                        `${buildRuntime} does not support brotli, please use newer version of bun or nodejs to build.`
+                    );
+                }
+            }
+            if (typeof opts.precompress === 'object' && opts.precompress.zstd && !supportsZstd()) {
+                throw new Error(
+                    `${buildRuntime} does not support zstd, please use bun or Node.js 22.15 or newer to build.`
+                );
+            }
+            if (opts.compile) {
+                if (opts.runtime !== 'bun') {
+                    throw new Error("`compile` requires `runtime: 'bun'`");
+                }
+                if (!isBun) {
+                    throw new Error('Please run build with bun to use `compile`');
+                }
+            }
+            if (opts.transpileBun) {
+                if (opts.runtime !== 'bun') {
+                    throw new Error("`transpileBun: true` requires `runtime: 'bun'`");
+                }
+                if (!isBun) {
+                    throw new Error('Please run build with bun to use `transpileBun: true`');
                 }
-            } else if (opts.transpileBun) {
-                throw new Error('Please run build with bun to use `transpileBun: true`');
             }
 
             const tmp = builder.getBuildDirectory(adapterName);
 
-            const { out, precompress, transpileBun } = opts;
+            const { precompress, transpileBun } = opts;
+            const release = opts.release === true ? {} : opts.release || undefined;
+            const releaseId = release ? validateReleaseId(builder.config.kit.version.name) : undefined;
+            // earlier releases are kept for rollbacks
+            const out = release ? `${opts.out}/releases/${releaseId}` : opts.out;
 
             builder.rimraf(out);
             builder.mkdirp(out);
@@ -95,12 +197,15 @@ export default function adapter(userOpts: AdapterOptions = {}): Adapter {
             builder.writeClient(`${out}/client${builder.config.kit.paths.base}`);
             builder.writePrerendered(`${out}/prerendered${builder.config.kit.paths.base}`);
 
+            builder.log.minor('Reading _headers and _redirects');
+            const rules = readRules(builder.config.kit.files.assets);
+            for (const file of ['_headers', '_redirects']) {
+                rmSync(`${out}/client${builder.config.kit.paths.base}/${file}`, { force: true });
+            }
+
             if (precompress) {
                 builder.log.minor('Compressing assets');
-                await Promise.all([
-                    compress(`${out}/client`, precompress),
-                    compress(`${out}/prerendered`, precompress)
-                ]);
+                await compress([`${out}/client`, `${out}/prerendered`], precompress);
             }
 
             builder.log.minor('Building server');
@@ -108,14 +213,37 @@ export default function adapter(userOpts: AdapterOptions = {}): Adapter {
 
             exportSetupCLI(tmp);
 
+            builder.log.minor('Generating static manifest');
+            const staticFiles = {
+                client: await staticManifest(`${out}/client`, `/${builder.getAppPath()}/immutable/`),
+                prerendered: await staticManifest(`${out}/prerendered`)
+            };
+
+            const pkg = JSON.parse(readFileSync('package.json', 'utf8'));
+            const externals = serverExternals(pkg, opts.bundleDependencies, opts.external);
+
+            const build: BuildInfo = {
+                adapter: `${adapterName}@${adapterVersion}`,
+                kit: kitVersion(),
+                base: builder.config.kit.paths.base,
+                appDir: builder.config.kit.appDir,
+                time: new Date().toISOString(),
+                builtWith: buildRuntime,
+                runtime: opts.runtime,
+                compile: opts.compile ? (opts.compile === true ? undefined : opts.compile.mode) ?? 'executable' : false,
+                precompress: precompressFormats(precompress),
+                requiredEnv: opts.requiredEnv
+            };
+
             writeFileSync(
                 `${tmp}/manifest.js`,
                 `export const manifest = ${builder.generateManifest({ relativePath: './' })};\n\n` +
-                    `export const prerendered = new Set(${JSON.stringify(builder.prerendered.paths)});\n`
+                    `export const prerendered = new Set(${JSON.stringify(builder.prerendered.paths)});\n\n` +
+                    `export const staticFiles = ${JSON.stringify(staticFiles)};\n\n` +
+                    `export const rules = ${JSON.stringify(rules)};\n\n` +
+                    `export const build = ${JSON.stringify(build)};\n`
             );
 
-            const pkg = JSON.parse(readFileSync('package.json', 'utf8'));
-
             // we bundle the Vite output so that deployments only need
             // their production dependencies. Anything in devDependencies
             // will get included in the bundled code
@@ -124,10 +252,8 @@ export default function adapter(userOpts: AdapterOptions = {}): Adapter {
                     index: `${tmp}/index.js`,
                     manifest: `${tmp}/manifest.js`
                 },
-                external: [
-                    // dependencies could have deep exports, so we need a regex
-                    ...Object.keys(pkg.dependencies || {}).map((d) => new RegExp(`^${d}(\\/.*)?$`))
-                ],
+                // dependencies could have deep exports, so we need a regex
+                external: externals.map(externalPattern),
                 plugins: [
                     nodeResolve({
                         preferBuiltins: true,
@@ -136,25 +262,33 @@ export default function adapter(userOpts: AdapterOptions = {}): Adapter {
                     // @ts-ignore https://github.com/rollup/plugins/issues/1329
                     commonjs({ strictRequires: true }),
                     // @ts-ignore https://github.com/rollup/plugins/issues/1329
-                    json()
+                    json(),
+                    opts.minify && minify()
                 ]
             });
 
-            await bundle.write({
+            const { output } = await bundle.write({
                 dir: `${out}/server`,
                 format: 'esm',
                 sourcemap: true,
                 chunkFileNames: 'chunks/[name]-[hash].js'
             });
 
-            builder.copy(files, out, {
+            builder.log.minor('Writing package.json');
+            const missing = writeProductionPackage(out, pkg, importedPackages(output));
+            if (missing.length) {
+                builder.log.warn(`The server imports ${missing.join(', ')} which are not installed.`);
+            }
+
+            builder.copy(`${files}/${opts.runtime}`, out, {
                 replace: {
                     SERVER: './server/index.js',
-                    MANIFEST: './server/manifest.js'
+                    MANIFEST: './server/manifest.js',
+                    ENV_PREFIX: JSON.stringify(opts.envPrefix)
                 }
             });
 
-            if (opts.transpileBun) {
+            if (opts.transpileBun && !opts.compile) {
                 const files = await glob('./server/**/*.js', { cwd: out, absolute: true });
                 const transpiler = new Bun.Transpiler({ loader: 'js' });
                 for (const file of files) {
@@ -164,69 +298,38 @@ export default function adapter(userOpts: AdapterOptions = {}): Adapter {
                 }
             }
 
-            await opts.postBuild(opts, builder);
+            let artifacts: BuildArtifacts = {
+                entry: `${out}/index.js`,
+                executable: false,
+                files: [`${out}/index.js`, `${out}/server`]
+            };
+
+            if (opts.compile) {
+                builder.log.minor('Compiling cli');
+                artifacts = await compileCLI(builder, out, tmp, staticFiles, opts.compile === true ? {} : opts.compile);
+            }
+
+            writeBridge(builder, opts.out, out, opts.runtime, artifacts, rules, opts.bridge);
+
+            if (release) {
+                builder.log.minor('Writing release checksums');
+                writeReleaseManifest(out, releaseId!);
+                if (release.archive) {
+                    builder.log.minor(`Packing release into ${releaseId}.${release.archive}`);
+                    await writeArchive(out, releaseId!, `${out}.${release.archive}`, release.archive);
+                }
+                if (release.activate ?? true) {
+                    activateRelease(opts.out, releaseId!);
+                }
+            }
+
+            await opts.postBuild(opts, builder, artifacts);
 
             builder.log.success(`Build done.`);
         }
     };
 }
 
-async function compress(directory: string, options: true | PreCompressOptions) {
-    if (!existsSync(directory)) {
-        return;
-    }
-
-    const files_ext =
-        options === true || !options.files ? ['html', 'js', 'json', 'css', 'svg', 'xml', 'wasm'] : options.files;
-    const files = await glob(`**/*.{${files_ext.join()}}`, {
-        cwd: directory,
-        dot: true,
-        absolute: true,
-        filesOnly: true
-    });
-
-    let doBr = false,
-        doGz = false;
-
-    if (options === true) {
-        doBr = doGz = true;
-    } else if (typeof options == 'object') {
-        doBr = options.brotli ?? false;
-        doGz = options.gzip ?? false;
-    }
-
-    await Promise.all(
-        files.map((file) => Promise.all([doGz && compress_file(file, 'gz'), doBr && compress_file(file, 'br')]))
-    );
-}
-
-/**
- * @param {string} file
- * @param {'gz' | 'br'} format
- */
-async function compress_file(file: string, format: 'gz' | 'br' = 'gz') {
-    if (format === 'br' && typeof zlib.createBrotliCompress !== 'function') {
-        throw new Error(
-            'Brotli compression is not supported, this might happens if you are using Bun to build your project instead of Node JS. See https://github.com/oven-sh/bun/issues/267'
-        );
-    }
-    const compress =
-        format == 'br'
-            ? zlib.createBrotliCompress({
-                  params: {
-                      [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
-                      [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY,
-                      [zlib.constants.BROTLI_PARAM_SIZE_HINT]: statSync(file).size
-                  }
-              })
-            : zlib.createGzip({ level: zlib.constants.Z_BEST_COMPRESSION });
-
-    const source = createReadStream(file);
-    const destination = createWriteStream(`${file}.${format}`);
-
-    await pipeline(source, compress, destination);
-}
-
 function exportSetupCLI(out: string) {
     let src = readFileSync(`${out}/index.js`, 'utf8');
     const result = src.replace(/^export\s*{/gm, 'export {\nget_hooks,\n');
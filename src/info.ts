@@ -0,0 +1,45 @@
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { join } from 'path';
+import type { CompressFormat, PreCompressOptions } from './compress';
+
+/**
+ * Facts about the build, written into the manifest by the adapter.
+ */
+export type BuildInfo = {
+    /**
+     * Name and version of the adapter.
+     */
+    adapter: string;
+    kit: string;
+    base: string;
+    appDir: string;
+
+    /**
+     * ISO timestamp of the build.
+     */
+    time: string;
+
+    /**
+     * The runtime which ran the build, like `Bun v1.1.8`.
+     */
+    builtWith: string;
+    runtime: 'bun' | 'node';
+    compile: 'executable' | 'bytecode' | false;
+    precompress: CompressFormat[];
+    requiredEnv: string[];
+};
+
+/**
+ * Version of SvelteKit installed in the project.
+ */
+export function kitVersion(): string {
+    const require = createRequire(join(process.cwd(), 'package.json'));
+    return JSON.parse(readFileSync(require.resolve('@sveltejs/kit/package.json'), 'utf8')).version;
+}
+
+export function precompressFormats(precompress: boolean | PreCompressOptions): CompressFormat[] {
+    if (!precompress) return [];
+    if (precompress === true) return ['gzip', 'brotli'];
+    return (['gzip', 'brotli', 'zstd'] as const).filter((format) => precompress[format]);
+}
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, lstatSync, mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    activateRelease,
+    currentRelease,
+    listFiles,
+    listReleases,
+    pruneReleases,
+    releaseRoot,
+    RELEASE_MANIFEST,
+    SNAPSHOT_MANIFEST,
+    verifyRelease,
+    writeReleaseManifest
+} from './release';
+
+let root: string;
+
+/**
+ * Write a release with an `index.js` and a static file, built at the given time.
+ */
+function release(id: string, time = new Date().toISOString()) {
+    const dir = join(root, 'releases', id);
+    mkdirSync(join(dir, 'client'), { recursive: true });
+    writeFileSync(join(dir, 'index.js'), `console.log('${id}');\n`);
+    writeFileSync(join(dir, 'client', 'app.css'), 'body{}');
+    const manifest = writeReleaseManifest(dir, id);
+    writeFileSync(join(dir, RELEASE_MANIFEST), JSON.stringify({ ...manifest, time }));
+    return dir;
+}
+
+beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'adapter-cli-release-'));
+});
+
+afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+});
+
+describe('release manifest', () => {
+    test('lists the checksum of every file', () => {
+        const dir = release('1');
+        const manifest = JSON.parse(readFileSync(join(dir, RELEASE_MANIFEST), 'utf8'));
+        expect(manifest.id).toBe('1');
+        expect(Object.keys(manifest.files)).toEqual(['client/app.css', 'index.js']);
+        expect(manifest.files['client/app.css']).toMatch(/^[0-9a-f]{64}$/);
+        expect(listFiles(dir)).toEqual(['client/app.css', 'index.js', RELEASE_MANIFEST]);
+    });
+
+    test('verify reports missing and modified files', () => {
+        const dir = release('1');
+        expect(verifyRelease(dir)).toEqual([]);
+        writeFileSync(join(dir, 'index.js'), 'changed');
+        rmSync(join(dir, 'client', 'app.css'));
+        // added files are not checked
+        writeFileSync(join(dir, 'extra.txt'), '');
+        expect(verifyRelease(dir)).toEqual(['client/app.css is missing', 'index.js does not match its checksum']);
+        rmSync(join(dir, RELEASE_MANIFEST));
+        expect(verifyRelease(dir)).toEqual([`${RELEASE_MANIFEST} is missing`]);
+    });
+
+    test('verify skips the pages rewritten by snapshot', () => {
+        const dir = release('1');
+        mkdirSync(join(dir, 'prerendered'));
+        writeFileSync(join(dir, 'prerendered', 'about.html'), 'built');
+        writeFileSync(join(dir, 'prerendered', 'about.html.gz'), 'built');
+        writeFileSync(join(dir, 'prerendered', 'blog.html'), 'built');
+        writeReleaseManifest(dir, '1');
+        writeFileSync(join(dir, 'prerendered', 'about.html'), 'snapshot');
+        writeFileSync(join(dir, 'prerendered', 'about.html.gz'), 'snapshot');
+        writeFileSync(join(dir, SNAPSHOT_MANIFEST), JSON.stringify({ '/about.html': {} }));
+        expect(verifyRelease(dir)).toEqual([]);
+        writeFileSync(join(dir, 'prerendered', 'blog.html'), 'changed');
+        expect(verifyRelease(dir)).toEqual(['prerendered/blog.html does not match its checksum']);
+    });
+});
+
+describe('activateRelease', () => {
+    test('activate and roll back', () => {
+        release('1');
+        release('2');
+        expect(currentRelease(root)).toBeUndefined();
+        activateRelease(root, '2');
+        expect(currentRelease(root)).toBe('2');
+        expect(lstatSync(join(root, 'current')).isSymbolicLink()).toBe(true);
+        expect(readFileSync(join(root, 'current', 'index.js'), 'utf8')).toBe("console.log('2');\n");
+        activateRelease(root, '1');
+        expect(currentRelease(root)).toBe('1');
+        expect(readFileSync(join(root, 'current', 'index.js'), 'utf8')).toBe("console.log('1');\n");
+        // the temporary link is renamed into place
+        expect(existsSync(join(root, `.current-${process.pid}`))).toBe(false);
+    });
+
+    test('the root of the release of a cli', () => {
+        release('1');
+        activateRelease(root, '1');
+        expect(releaseRoot(join(root, 'current'))).toBe(releaseRoot(join(root, 'releases', '1')));
+        expect(() => releaseRoot(root)).toThrow('The cli is not part of a release');
+    });
+
+    test('refuses an unknown release or a current which is not a link', () => {
+        expect(() => activateRelease(root, '1')).toThrow('Release 1 does not exist.');
+        expect(() => activateRelease(root, '../x')).toThrow('Invalid release id: ../x');
+        release('1');
+        mkdirSync(join(root, 'current'));
+        expect(() => activateRelease(root, '1')).toThrow('exists and is not a symbolic link');
+    });
+
+    test('replaces a dangling link', () => {
+        release('1');
+        symlinkSync(join('releases', 'gone'), join(root, 'current'));
+        activateRelease(root, '1');
+        expect(currentRelease(root)).toBe('1');
+    });
+});
+
+describe('listReleases and pruneReleases', () => {
+    test('releases from the oldest to the newest', () => {
+        release('b', '2024-01-02T00:00:00.000Z');
+        release('a', '2024-01-03T00:00:00.000Z');
+        release('c', '2024-01-01T00:00:00.000Z');
+        activateRelease(root, 'b');
+        expect(listReleases(root)).toEqual([
+            { id: 'c', time: '2024-01-01T00:00:00.000Z', current: false },
+            { id: 'b', time: '2024-01-02T00:00:00.000Z', current: true },
+            { id: 'a', time: '2024-01-03T00:00:00.000Z', current: false }
+        ]);
+    });
+
+    test('prune keeps the newest and the current release', () => {
+        for (let i = 1; i <= 5; i++) release(`${i}`, `2024-01-0${i}T00:00:00.000Z`);
+        writeFileSync(join(root, 'releases', '2.tar.gz'), '');
+        writeFileSync(join(root, 'releases', '3.zip'), '');
+        activateRelease(root, '1');
+        expect(pruneReleases(root, 2)).toEqual(['2', '3']);
+        expect(listReleases(root).map((release) => release.id)).toEqual(['1', '4', '5']);
+        expect(existsSync(join(root, 'releases', '2.tar.gz'))).toBe(false);
+        expect(existsSync(join(root, 'releases', '3.zip'))).toBe(false);
+        expect(pruneReleases(root, 2)).toEqual([]);
+    });
+
+    test('without releases', () => {
+        expect(listReleases(root)).toEqual([]);
+        expect(pruneReleases(root, 1)).toEqual([]);
+    });
+});
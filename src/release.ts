@@ -0,0 +1,215 @@
+import { createHash } from 'crypto';
+import {
+    existsSync,
+    lstatSync,
+    readdirSync,
+    readFileSync,
+    readlinkSync,
+    realpathSync,
+    renameSync,
+    rmSync,
+    statSync,
+    symlinkSync,
+    writeFileSync
+} from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+
+export type ReleaseOptions = {
+    /**
+     * Also pack the release into `releases/<id>.tar.gz` or `releases/<id>.zip`, to upload it as one file.
+     * @default false
+     */
+    archive?: 'tar.gz' | 'zip' | false;
+
+    /**
+     * Point `current` at the new release after the build.
+     * @default true
+     */
+    activate?: boolean;
+};
+
+/**
+ * Checksums of the files of a release, written into `release.json` of the release.
+ */
+export type ReleaseManifest = {
+    id: string;
+
+    /**
+     * ISO timestamp of the build.
+     */
+    time: string;
+
+    /**
+     * Hex sha256 of every file keyed by its path relative to the release.
+     */
+    files: Record<string, string>;
+};
+
+export type ReleaseInfo = {
+    id: string;
+    time: string;
+    current: boolean;
+};
+
+export const RELEASE_MANIFEST = 'release.json';
+
+/**
+ * Manifest of the pages written by the `snapshot` command of the cli, keyed by their path
+ * in `prerendered/`.
+ */
+export const SNAPSHOT_MANIFEST = 'prerendered.json';
+
+const CURRENT = 'current';
+
+/**
+ * Files of a directory, relative with `/` as separator.
+ */
+export function listFiles(dir: string, prefix = ''): string[] {
+    const files: string[] = [];
+    for (const entry of readdirSync(join(dir, prefix), { withFileTypes: true })) {
+        const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) files.push(...listFiles(dir, path));
+        else if (entry.isFile()) files.push(path);
+    }
+    return files.sort();
+}
+
+function checksum(file: string) {
+    return createHash('sha256').update(readFileSync(file)).digest('hex');
+}
+
+export function validateReleaseId(id: string) {
+    if (!/^[\w.-]+$/.test(id) || id === '.' || id === '..') {
+        throw new Error(`Invalid release id: ${id}, expected letters, digits, '_', '-' and '.'.`);
+    }
+    return id;
+}
+
+export function writeReleaseManifest(dir: string, id: string) {
+    const manifest: ReleaseManifest = {
+        id,
+        time: new Date().toISOString(),
+        files: Object.fromEntries(
+            listFiles(dir)
+                .filter((file) => file !== RELEASE_MANIFEST)
+                .map((file) => [file, checksum(join(dir, file))])
+        )
+    };
+    writeFileSync(join(dir, RELEASE_MANIFEST), JSON.stringify(manifest, null, 4) + '\n');
+    return manifest;
+}
+
+function readReleaseManifest(dir: string): ReleaseManifest | undefined {
+    const file = join(dir, RELEASE_MANIFEST);
+    return existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : undefined;
+}
+
+/**
+ * Files of the release rewritten by `snapshot` after the build, with their compressed variants.
+ */
+function snapshotFiles(dir: string) {
+    const file = join(dir, SNAPSHOT_MANIFEST);
+    if (!existsSync(file)) return new Set<string>();
+    return new Set(
+        Object.keys(JSON.parse(readFileSync(file, 'utf8'))).flatMap((path) =>
+            ['', '.gz', '.br', '.zst'].map((ext) => `prerendered${path}${ext}`)
+        )
+    );
+}
+
+/**
+ * Compare the files of a release with its checksums and return the problems found, so an
+ * incomplete upload is never activated. Files added after the build and pages rewritten by
+ * `snapshot` are not checked.
+ */
+export function verifyRelease(dir: string) {
+    const manifest = readReleaseManifest(dir);
+    if (!manifest) return [`${RELEASE_MANIFEST} is missing`];
+    const snapshotted = snapshotFiles(dir);
+    const problems: string[] = [];
+    for (const [file, sum] of Object.entries(manifest.files)) {
+        if (file === SNAPSHOT_MANIFEST || snapshotted.has(file)) continue;
+        const path = join(dir, file);
+        if (!existsSync(path)) problems.push(`${file} is missing`);
+        else if (checksum(path) !== sum) problems.push(`${file} does not match its checksum`);
+    }
+    return problems;
+}
+
+/**
+ * Root of the releases the cli in the directory belongs to, the parent of `releases/`.
+ */
+export function releaseRoot(baseDir: string) {
+    const dir = dirname(realpathSync(baseDir));
+    if (basename(dir) !== 'releases') {
+        throw new Error('The cli is not part of a release, build with the `release` adapter option.');
+    }
+    return dirname(dir);
+}
+
+export function currentRelease(root: string) {
+    const link = join(root, CURRENT);
+    if (!existsSync(link) || !lstatSync(link).isSymbolicLink()) return undefined;
+    return basename(readlinkSync(link));
+}
+
+/**
+ * Point `current` at the release, the link is replaced with a rename so the bridge never
+ * sees a missing or partial release. On Windows `current` is a junction, which cannot be
+ * renamed over, so it is missing for a moment in between.
+ */
+export function activateRelease(root: string, id: string) {
+    validateReleaseId(id);
+    if (!existsSync(join(root, 'releases', id))) {
+        throw new Error(`Release ${id} does not exist.`);
+    }
+    const link = join(root, CURRENT);
+    if (existsSync(link) && !lstatSync(link).isSymbolicLink()) {
+        throw new Error(`${link} exists and is not a symbolic link.`);
+    }
+    const tmp = join(root, `.${CURRENT}-${process.pid}`);
+    rmSync(tmp, { force: true });
+    if (process.platform === 'win32') {
+        // a junction does not need privileges, but only takes an absolute target
+        symlinkSync(resolve(root, 'releases', id), tmp, 'junction');
+        rmSync(link, { force: true });
+    } else {
+        symlinkSync(join('releases', id), tmp);
+    }
+    renameSync(tmp, link);
+}
+
+/**
+ * Releases from the oldest to the newest.
+ */
+export function listReleases(root: string): ReleaseInfo[] {
+    const dir = join(root, 'releases');
+    if (!existsSync(dir)) return [];
+    const current = currentRelease(root);
+    return readdirSync(dir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => {
+            const manifest = readReleaseManifest(join(dir, entry.name));
+            return {
+                id: entry.name,
+                time: manifest?.time ?? statSync(join(dir, entry.name)).mtime.toISOString(),
+                current: entry.name === current
+            };
+        })
+        .sort((a, b) => a.time.localeCompare(b.time));
+}
+
+/**
+ * Remove the releases older than the newest `keep` ones and their archives, except the
+ * current one. Returns the removed ids.
+ */
+export function pruneReleases(root: string, keep: number) {
+    const releases = listReleases(root);
+    const removed = releases.slice(0, Math.max(releases.length - keep, 0)).filter((release) => !release.current);
+    for (const { id } of removed) {
+        for (const path of [id, `${id}.tar.gz`, `${id}.zip`]) {
+            rmSync(join(root, 'releases', path), { recursive: true, force: true });
+        }
+    }
+    return removed.map((release) => release.id);
+}
@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test';
+import { matchPattern, parseHeaders, parseRedirects, substitute } from './rules';
+
+describe('matchPattern', () => {
+    test('a literal path', () => {
+        expect(matchPattern('/about', '/about')).toEqual({});
+        expect(matchPattern('/about', '/about/')).toEqual({});
+        expect(matchPattern('/about', '/about/team')).toBeUndefined();
+        expect(matchPattern('/a.b', '/axb')).toBeUndefined();
+    });
+
+    test('placeholders match one segment', () => {
+        expect(matchPattern('/blog/:year/:slug', '/blog/2024/hello')).toEqual({ year: '2024', slug: 'hello' });
+        expect(matchPattern('/blog/:slug', '/blog/2024/hello')).toBeUndefined();
+        expect(matchPattern('/blog/:slug', '/blog/')).toBeUndefined();
+    });
+
+    test('splats', () => {
+        expect(matchPattern('/docs/*', '/docs/a/b')).toEqual({ splat: 'a/b' });
+        expect(matchPattern('/docs/*', '/docs')).toEqual({ splat: '' });
+        expect(matchPattern('/docs/*', '/documents')).toBeUndefined();
+        expect(matchPattern('/*.html', '/a/b.html')).toEqual({ splat: 'a/b' });
+        expect(matchPattern('/:lang/*', '/en/a/b')).toEqual({ lang: 'en', splat: 'a/b' });
+    });
+});
+
+describe('substitute', () => {
+    test('placeholders and the splat', () => {
+        expect(substitute('/news/:slug', { slug: 'hello' })).toBe('/news/hello');
+        expect(substitute('https://docs.example.com/:splat', { splat: 'a/b' })).toBe('https://docs.example.com/a/b');
+        expect(substitute('/:missing', {})).toBe('/:missing');
+    });
+});
+
+describe('parseHeaders', () => {
+    test('rules with headers to set and remove', () => {
+        const source = [
+            '# comment',
+            '/*',
+            '  X-Frame-Options: DENY',
+            '  Link: </a.css>; rel=preload',
+            '',
+            '/embed/*',
+            '  ! X-Frame-Options',
+            '\tCache-Control: no-cache'
+        ].join('\r\n');
+        expect(parseHeaders(source)).toEqual([
+            {
+                pattern: '/*',
+                set: [
+                    ['x-frame-options', 'DENY'],
+                    ['link', '</a.css>; rel=preload']
+                ],
+                unset: []
+            },
+            { pattern: '/embed/*', set: [['cache-control', 'no-cache']], unset: ['x-frame-options'] }
+        ]);
+    });
+
+    test('invalid lines', () => {
+        expect(() => parseHeaders('  X-A: 1')).toThrow('_headers:1: Header without a path pattern before it');
+        expect(() => parseHeaders('/a\n  no separator')).toThrow("_headers:2: Expected 'name: value'");
+        expect(() => parseHeaders('/a\n  Bad Name: 1')).toThrow("_headers:2: Expected 'name: value'");
+        expect(() => parseHeaders('/a\n  ! bad/name')).toThrow('_headers:2: Invalid header name bad/name');
+        expect(() => parseHeaders('a/b\n  X-A: 1', 'static/_headers')).toThrow(
+            "static/_headers:1: Pattern must be a path starting with '/'"
+        );
+        expect(() => parseHeaders('/*/*\n  X-A: 1')).toThrow('_headers:1: Pattern can only have one splat');
+    });
+});
+
+describe('parseRedirects', () => {
+    test('status codes', () => {
+        const source = ['/old /new', '/a /b 302', '/app/* /app 200', '/gone /404.html 404', '/forced /x 301!'].join(
+            '\n'
+        );
+        expect(parseRedirects(source)).toEqual([
+            { from: '/old', to: '/new', status: 301, force: false },
+            { from: '/a', to: '/b', status: 302, force: false },
+            { from: '/app/*', to: '/app', status: 200, force: false },
+            { from: '/gone', to: '/404.html', status: 404, force: false },
+            { from: '/forced', to: '/x', status: 301, force: true }
+        ]);
+    });
+
+    test('placeholders and splats in the target', () => {
+        expect(parseRedirects('/blog/:slug  /news/:slug\n/docs/*  https://docs.example.com/:splat  302')).toEqual([
+            { from: '/blog/:slug', to: '/news/:slug', status: 301, force: false },
+            { from: '/docs/*', to: 'https://docs.example.com/:splat', status: 302, force: false }
+        ]);
+    });
+
+    test('invalid lines', () => {
+        expect(() => parseRedirects('/only')).toThrow("_redirects:1: Expected 'from to [status]'");
+        expect(() => parseRedirects('/a Country=nl')).toThrow("_redirects:1: Expected 'from to [status]'");
+        expect(() => parseRedirects('/a /b 301 Role=admin')).toThrow('_redirects:1: Conditions are not supported');
+        expect(() => parseRedirects('\n/a /b 418')).toThrow('_redirects:2: Status must be one of');
+        expect(() => parseRedirects('a /b')).toThrow("_redirects:1: Pattern must be a path starting with '/'");
+        expect(() => parseRedirects('/a b')).toThrow('_redirects:1: Target must be a path or a url');
+        expect(() => parseRedirects('/a https://example.com 200')).toThrow(
+            '_redirects:1: Proxying to another origin is not supported'
+        );
+        expect(() => parseRedirects('/blog/:slug /news/:id')).toThrow(
+            '_redirects:1: :id is not captured by /blog/:slug'
+        );
+        expect(() => parseRedirects('/blog /news/:splat')).toThrow('_redirects:1: :splat is not captured by /blog');
+    });
+});
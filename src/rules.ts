@@ -0,0 +1,184 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+export type HeaderRule = {
+    pattern: string;
+
+    /**
+     * Headers to set, values of the same name from several rules are joined.
+     */
+    set: [string, string][];
+
+    /**
+     * Headers to remove, from `! name` lines.
+     */
+    unset: string[];
+};
+
+export type RedirectRule = {
+    from: string;
+    to: string;
+
+    /**
+     * Redirect with a 3xx status, rewrite with 200 or respond 404 with the target.
+     */
+    status: number;
+
+    /**
+     * Applied even if a static file matches, otherwise only as a fallback.
+     */
+    force: boolean;
+};
+
+export type Rules = {
+    headers: HeaderRule[];
+    redirects: RedirectRule[];
+};
+
+const redirectStatus = new Set([200, 301, 302, 303, 307, 308, 404]);
+
+const TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+const compiled = new Map<string, { regex: RegExp; names: string[] }>();
+
+/**
+ * Compile a pattern with `:name` placeholders of one segment and a `*` splat.
+ */
+function compilePattern(pattern: string) {
+    let found = compiled.get(pattern);
+    if (!found) {
+        const names: string[] = [];
+        let source = '';
+        for (const part of pattern.split(/(:[A-Za-z_][A-Za-z0-9_]*|\/\*$|\*)/)) {
+            if (part === '/*') {
+                // `/blog/*` also matches `/blog`
+                names.push('splat');
+                source += '(?:/(.*))?';
+            } else if (part === '*') {
+                names.push('splat');
+                source += '(.*)';
+            } else if (part.startsWith(':')) {
+                names.push(part.slice(1));
+                source += '([^/]+)';
+            } else {
+                source += part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            }
+        }
+        found = { regex: new RegExp(`^${source}/?$`), names };
+        compiled.set(pattern, found);
+    }
+    return found;
+}
+
+/**
+ * The regular expression of a pattern, with a capture group for each placeholder.
+ */
+export function patternRegExp(pattern: string) {
+    return compilePattern(pattern).regex;
+}
+
+/**
+ * Match a path against a pattern, resolves the placeholders or undefined when it does not match.
+ */
+export function matchPattern(pattern: string, path: string) {
+    const { regex, names } = compilePattern(pattern);
+    const match = regex.exec(path);
+    if (!match) return undefined;
+    return Object.fromEntries(names.map((name, i) => [name, match[i + 1] ?? '']));
+}
+
+/**
+ * Replace the placeholders of a redirect target with the matched values.
+ */
+export function substitute(to: string, params: Record<string, string>) {
+    return to.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (placeholder, name) => params[name] ?? placeholder);
+}
+
+function lines(source: string) {
+    return source
+        .split(/\r?\n/)
+        .map((text, i) => [i + 1, text.trimEnd()] as const)
+        .filter(([, text]) => text.trim() && !text.trim().startsWith('#'));
+}
+
+function validatePattern(pattern: string, where: string) {
+    if (!pattern.startsWith('/')) {
+        throw new Error(`${where}: Pattern must be a path starting with '/', got ${pattern}`);
+    }
+    if ((pattern.match(/\*/g) ?? []).length > 1) {
+        throw new Error(`${where}: Pattern can only have one splat, got ${pattern}`);
+    }
+}
+
+/**
+ * Parse a `_headers` file, a path pattern followed by indented `name: value` lines.
+ */
+export function parseHeaders(source: string, file = '_headers') {
+    const rules: HeaderRule[] = [];
+    for (const [line, text] of lines(source)) {
+        const where = `${file}:${line}`;
+        if (!/^\s/.test(text)) {
+            validatePattern(text.trim(), where);
+            rules.push({ pattern: text.trim(), set: [], unset: [] });
+            continue;
+        }
+        const rule = rules[rules.length - 1];
+        if (!rule) throw new Error(`${where}: Header without a path pattern before it`);
+        const detach = /^\s*!\s*(\S+)$/.exec(text);
+        if (detach) {
+            if (!TOKEN.test(detach[1])) throw new Error(`${where}: Invalid header name ${detach[1]}`);
+            rule.unset.push(detach[1].toLowerCase());
+            continue;
+        }
+        const separator = text.indexOf(':');
+        const name = text.slice(0, separator).trim();
+        if (separator < 0 || !TOKEN.test(name)) throw new Error(`${where}: Expected 'name: value', got ${text.trim()}`);
+        rule.set.push([name.toLowerCase(), text.slice(separator + 1).trim()]);
+    }
+    return rules;
+}
+
+/**
+ * Parse a `_redirects` file, every line is `from to [status][!]`.
+ */
+export function parseRedirects(source: string, file = '_redirects') {
+    const rules: RedirectRule[] = [];
+    for (const [line, text] of lines(source)) {
+        const where = `${file}:${line}`;
+        const [from, to, status = '301', ...rest] = text.trim().split(/\s+/);
+        if (!to || to.includes('=')) throw new Error(`${where}: Expected 'from to [status]', got ${text.trim()}`);
+        if (rest.length) throw new Error(`${where}: Conditions are not supported, got ${rest.join(' ')}`);
+        validatePattern(from, where);
+        const code = Number(status.replace(/!$/, ''));
+        if (!redirectStatus.has(code)) {
+            throw new Error(`${where}: Status must be one of ${[...redirectStatus].join(', ')}, got ${status}`);
+        }
+        const external = /^[a-z][a-z0-9+.-]*:\/\//i.test(to);
+        if (!external && !to.startsWith('/')) throw new Error(`${where}: Target must be a path or a url, got ${to}`);
+        if (external && (code === 200 || code === 404)) {
+            throw new Error(`${where}: Proxying to another origin is not supported, got ${to}`);
+        }
+        const { names } = compilePattern(from);
+        for (const [placeholder, name] of to.matchAll(/:([A-Za-z_][A-Za-z0-9_]*)/g)) {
+            if (!names.includes(name)) throw new Error(`${where}: ${placeholder} is not captured by ${from}`);
+        }
+        rules.push({ from, to, status: code, force: status.endsWith('!') });
+    }
+    return rules;
+}
+
+/**
+ * Read `_headers` and `_redirects` of a directory.
+ */
+export function readRules(directory: string): Rules {
+    const read = (name: string) => {
+        const file = join(directory, name);
+        return existsSync(file) ? ([readFileSync(file, 'utf8'), file] as const) : undefined;
+    };
+    const headers = read('_headers');
+    const redirects = read('_redirects');
+    return {
+        headers: headers ? parseHeaders(...headers) : [],
+        redirects: redirects ? parseRedirects(...redirects) : []
+    };
+}
@@ -0,0 +1,106 @@
+import { createHash } from 'crypto';
+import { createReadStream, existsSync, statSync } from 'fs';
+import { lookup } from 'mrmime';
+import glob from 'tiny-glob';
+
+export type StaticFile = {
+    /**
+     * Size in bytes.
+     */
+    size: number;
+
+    /**
+     * Strong etag from the content hash.
+     */
+    etag: string;
+
+    /**
+     * Modified time in milliseconds at build time.
+     */
+    mtime: number;
+
+    /**
+     * Content type.
+     */
+    type: string;
+
+    /**
+     * Sizes of the pre-compressed variants, keyed by content encoding.
+     */
+    encodings: Partial<Record<'gzip' | 'br' | 'zstd', number>>;
+
+    /**
+     * The file never changes, and can be cached forever.
+     */
+    immutable: boolean;
+};
+
+/**
+ * Static files keyed by their path relative to the directory, with a leading slash.
+ */
+export type StaticFiles = Record<string, StaticFile>;
+
+const encodings = {
+    gzip: '.gz',
+    br: '.br',
+    zstd: '.zst'
+} as const;
+
+const charsetTypes = /^(text\/|application\/(javascript|json|xml|manifest\+json))/;
+
+/**
+ * Build a manifest of all files in a directory, pre-compressed variants are recorded
+ * with their original file.
+ */
+export async function staticManifest(directory: string, immutablePrefix?: string): Promise<StaticFiles> {
+    if (!existsSync(directory)) return {};
+    const paths = (
+        await glob('**/*', {
+            cwd: directory,
+            dot: true,
+            filesOnly: true
+        })
+    ).map((path) => '/' + path.replaceAll('\\', '/'));
+    const all = new Set(paths);
+    const isVariant = (path: string) =>
+        Object.values(encodings).some((ext) => path.endsWith(ext) && all.has(path.slice(0, -ext.length)));
+    const manifest: StaticFiles = {};
+    for (const path of paths.sort()) {
+        if (isVariant(path)) continue;
+        manifest[path] = await staticFile(
+            directory + path,
+            immutablePrefix !== undefined && path.startsWith(immutablePrefix)
+        );
+    }
+    return manifest;
+}
+
+/**
+ * Build the manifest entry of a single file with the pre-compressed variants next to it.
+ */
+export async function staticFile(file: string, immutable = false): Promise<StaticFile> {
+    const stats = statSync(file);
+    const type = lookup(file) ?? 'application/octet-stream';
+    const entry: StaticFile = {
+        size: stats.size,
+        etag: `"${await hashFile(file)}"`,
+        mtime: Math.floor(stats.mtimeMs / 1000) * 1000,
+        type: charsetTypes.test(type) ? `${type};charset=utf-8` : type,
+        encodings: {},
+        immutable
+    };
+    for (const [encoding, ext] of Object.entries(encodings)) {
+        if (existsSync(file + ext)) {
+            entry.encodings[encoding as keyof typeof encodings] = statSync(file + ext).size;
+        }
+    }
+    return entry;
+}
+
+async function hashFile(file: string) {
+    const hash = createHash('sha1');
+    for await (const chunk of createReadStream(file)) {
+        hash.update(chunk);
+    }
+    return hash.digest('base64url');
+}
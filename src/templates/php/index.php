@@ -0,0 +1,150 @@
+<?php
+// Generated by @eslym/sveltekit-adapter-cli, forwards the request to the cli with the render protocol.
+
+$config = BRIDGE_CONFIG;
+
+ignore_user_abort(true);
+set_time_limit(0);
+ini_set('zlib.output_compression', 'Off');
+while (ob_get_level() > 0) {
+    ob_end_clean();
+}
+header_remove('X-Powered-By');
+
+function bridge_send($pipe, array $message)
+{
+    $line = json_encode($message, JSON_UNESCAPED_SLASHES) . "\n";
+    $written = 0;
+    while ($written < strlen($line)) {
+        $result = fwrite($pipe, substr($line, $written));
+        if ($result === false || $result === 0) {
+            return false;
+        }
+        $written += $result;
+    }
+    return true;
+}
+
+function bridge_request_headers()
+{
+    if (function_exists('getallheaders')) {
+        return getallheaders();
+    }
+    $headers = [];
+    foreach ($_SERVER as $key => $value) {
+        if (strpos($key, 'HTTP_') === 0) {
+            $headers[str_replace('_', '-', strtolower(substr($key, 5)))] = $value;
+        } elseif ($key === 'CONTENT_TYPE' || $key === 'CONTENT_LENGTH') {
+            $headers[str_replace('_', '-', strtolower($key))] = $value;
+        }
+    }
+    return $headers;
+}
+
+$https = (!empty($_SERVER['HTTPS']) && strtolower($_SERVER['HTTPS']) !== 'off')
+    || (isset($_SERVER['REQUEST_SCHEME']) && $_SERVER['REQUEST_SCHEME'] === 'https');
+$host = isset($_SERVER['HTTP_HOST']) ? $_SERVER['HTTP_HOST'] : $_SERVER['SERVER_NAME'];
+$url = ($https ? 'https' : 'http') . '://' . $host . $_SERVER['REQUEST_URI'];
+$method = $_SERVER['REQUEST_METHOD'];
+$client_ip = isset($_SERVER['REMOTE_ADDR']) ? $_SERVER['REMOTE_ADDR'] : '';
+
+$env = null;
+if (is_array($config['env'])) {
+    $env = [];
+    foreach ($config['env'] as $name) {
+        $value = getenv($name);
+        if ($value !== false) {
+            $env[$name] = $value;
+        }
+    }
+}
+
+$log = $config['log'];
+if ($log[0] !== '/') {
+    $log = __DIR__ . '/' . $log;
+}
+
+$command = [__DIR__ . '/' . $config['entry'], 'render', '--url', $url, '--method', $method, '--client-ip', $client_ip];
+if ($config['bun'] !== null) {
+    array_unshift($command, $config['bun']);
+}
+
+$process = proc_open(
+    $command,
+    [0 => ['pipe', 'r'], 1 => ['pipe', 'w'], 2 => ['file', $log, 'a']],
+    $pipes,
+    __DIR__,
+    $env
+);
+
+if (!is_resource($process)) {
+    http_response_code(502);
+    header('Content-Type: text/plain');
+    echo '502 Bad Gateway';
+    exit;
+}
+
+foreach (bridge_request_headers() as $name => $value) {
+    bridge_send($pipes[0], ['header', $name, $value]);
+}
+bridge_send($pipes[0], ['start-body']);
+
+$input = fopen('php://input', 'rb');
+while (!feof($input)) {
+    $chunk = fread($input, 65536);
+    if ($chunk === false || $chunk === '') {
+        break;
+    }
+    if (!bridge_send($pipes[0], ['data', base64_encode($chunk)])) {
+        break;
+    }
+}
+fclose($input);
+bridge_send($pipes[0], ['end-body']);
+
+$status_sent = false;
+while (($line = fgets($pipes[1])) !== false) {
+    $message = json_decode($line, true);
+    if (!is_array($message)) {
+        continue;
+    }
+    switch ($message[0]) {
+        case 'status':
+            http_response_code((int) $message[1]);
+            $status_sent = true;
+            break;
+        case 'header':
+            if (strtolower($message[1]) === 'content-encoding' && function_exists('apache_setenv')) {
+                apache_setenv('no-gzip', '1');
+            }
+            header($message[1] . ': ' . $message[2], false);
+            break;
+        case 'start-body':
+            flush();
+            break;
+        case 'data':
+            echo base64_decode($message[1]);
+            flush();
+            if (connection_aborted()) {
+                bridge_send($pipes[0], ['abort']);
+                break 2;
+            }
+            break;
+        case 'end-body':
+            break 2;
+    }
+}
+
+if (!$status_sent) {
+    http_response_code(502);
+    header('Content-Type: text/plain');
+    echo '502 Bad Gateway';
+}
+
+if (function_exists('fastcgi_finish_request')) {
+    fastcgi_finish_request();
+}
+
+fclose($pipes[0]);
+fclose($pipes[1]);
+proc_close($process);